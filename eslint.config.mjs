@@ -4,7 +4,7 @@ import tseslint from 'typescript-eslint';
 
 export default tseslint.config(
 	{
-		files: ['src/**/*.ts'],
+		files: ['src/**/*.ts', 'test/**/*.ts'],
 		extends: [
 			js.configs.recommended,
 			...tseslint.configs.recommendedTypeChecked,
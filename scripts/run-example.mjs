@@ -1,47 +1,165 @@
+import 'dotenv/config';
+import { watch } from 'node:fs';
 import { access, readdir } from 'node:fs/promises';
-import { pathToFileURL } from 'node:url';
-import { join, resolve, relative } from 'node:path';
+import { spawn } from 'node:child_process';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { basename, join, resolve, relative } from 'node:path';
 import process from 'node:process';
 import { register } from 'tsx/esm/api';
 
 register();
 
-function getRequestedPrefix() {
-  const cliArgs = process.argv.slice(2);
-  if (cliArgs.length > 0) {
-    return cliArgs[cliArgs.length - 1];
+const { checkExample, ExampleRequirementsError, getRequiredEnv, loadExampleManifest } = await import(new URL('../src/example-manifest.ts', import.meta.url).href);
+
+// Options that take a value, as `--input file.txt` or `--input=file.txt`
+const VALUE_OPTIONS = ['--input', '--input-text', '--set', '--out', '--format', '--resume', '--from', '--batch', '--concurrency'];
+const OUTPUT_FORMATS = ['json', 'md', 'text'];
+
+function parseArgs(args) {
+  const positionals = [];
+  const flags = [];
+  const values = Object.fromEntries(VALUE_OPTIONS.map((name) => [name, []]));
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg : arg.slice(0, separator);
+    if (!VALUE_OPTIONS.includes(name)) {
+      flags.push(arg);
+      continue;
+    }
+
+    const value = separator === -1 ? args[++i] : arg.slice(separator + 1);
+    if (value === undefined) {
+      console.error(`Missing value for ${name}.`);
+      process.exitCode = 1;
+      process.exit();
+    }
+    values[name].push(value);
   }
 
+  return { positionals, flags, values };
+}
+
+function getNpmArgs() {
   const raw = process.env.npm_config_argv;
   if (!raw) {
-    return undefined;
+    return [];
   }
 
   try {
     const parsed = JSON.parse(raw);
     const original = Array.isArray(parsed?.original) ? parsed.original : [];
-    const filtered = original.filter((arg) => arg !== 'npm' && arg !== 'run' && arg !== 'run-script');
-    if (filtered.length === 0) {
-      return undefined;
-    }
-    return filtered[filtered.length - 1];
+    return original.filter((arg) => arg !== 'npm' && arg !== 'run' && arg !== 'run-script' && arg !== 'example');
   } catch {
-    return undefined;
+    return [];
   }
 }
 
-const prefix = getRequestedPrefix();
+const cliArgs = process.argv.slice(2);
+const { positionals: prefixes, flags, values } = parseArgs(cliArgs.some((arg) => !arg.startsWith('--')) ? cliArgs : getNpmArgs());
 
-if (!prefix) {
-  console.error('Usage: npm run example <prefix>');
+if (prefixes.length === 0) {
+  console.error('Usage: npm run example <prefix> [<prefix>...] | all [-- --parallel] | list');
+  console.error('       [-- --input <file> | --input-text "..."] [-- --set key=value ...]');
+  console.error('       [-- --out <dir>] [-- --format json|md|text] [-- --watch]');
+  console.error('       [-- --checkpoints | --resume <run id> [-- --from <step>]] [-- --batch <file> [-- --concurrency <n>]]');
   console.error('Example: npm run example 1');
   process.exitCode = 1;
   process.exit();
 }
 
-const basePrefix = `${prefix}-`;
+// --no-cache turns off the response cache even when MODEL_CACHE is set (see src/setup.ts)
+if (flags.includes('--no-cache')) {
+  process.env.MODEL_CACHE = 'false';
+}
+
+// --parallel runs several examples at once instead of one after another
+const parallel = flags.includes('--parallel');
+
+// --watch re-runs the example when a file in its folder changes (index.ts, templates, input)
+const watchMode = flags.includes('--watch');
+
+// Input overrides, read by the examples through src/example-input.ts (and inherited by the isolated runs)
+const inputFile = values['--input'].at(-1);
+if (inputFile !== undefined) {
+  process.env.EXAMPLE_INPUT = resolve(process.cwd(), inputFile);
+}
+const inputText = values['--input-text'].at(-1);
+if (inputText !== undefined) {
+  process.env.EXAMPLE_INPUT_TEXT = inputText;
+}
+if (values['--set'].length > 0) {
+  const fields = {};
+  for (const assignment of values['--set']) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      console.error(`Invalid --set "${assignment}", expected key=value, e.g. --set numTopStocks=5`);
+      process.exitCode = 1;
+      process.exit();
+    }
+    fields[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+  }
+  process.env.EXAMPLE_SET = JSON.stringify(fields);
+}
+
+// Result output, see src/example-output.ts: --format for stdout, --out saves each run to a timestamped folder
+const format = values['--format'].at(-1);
+if (format !== undefined) {
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`Invalid --format "${format}", expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+    process.exitCode = 1;
+    process.exit();
+  }
+  process.env.EXAMPLE_FORMAT = format;
+}
+const outDir = values['--out'].at(-1);
+if (outDir !== undefined) {
+  process.env.EXAMPLE_OUT_DIR = resolve(process.cwd(), outDir);
+}
+
+// Step checkpoints, see src/example-checkpoints.ts: --checkpoints saves them, --resume reuses the steps
+// a failed run finished, --from re-runs a step and the steps after it
+if (flags.includes('--checkpoints')) {
+  process.env.CHECKPOINTS = 'true';
+}
+const resumeRunId = values['--resume'].at(-1);
+if (resumeRunId !== undefined) {
+  process.env.EXAMPLE_RUN_ID = resumeRunId;
+}
+const fromStep = values['--from'].at(-1);
+if (fromStep !== undefined) {
+  if (resumeRunId === undefined) {
+    console.error('--from needs the run to re-run, e.g. --resume <run id> --from writer');
+    process.exitCode = 1;
+    process.exit();
+  }
+  process.env.EXAMPLE_FROM_STEP = fromStep;
+}
+
+// Batches, see src/example-batch.ts: --batch runs the example for every input in a .txt or .jsonl file,
+// --concurrency of them at a time
+const batchFile = values['--batch'].at(-1);
+if (batchFile !== undefined) {
+  process.env.EXAMPLE_BATCH = resolve(process.cwd(), batchFile);
+}
+const concurrency = values['--concurrency'].at(-1);
+if (concurrency !== undefined) {
+  if (!/^[1-9]\d*$/.test(concurrency)) {
+    console.error(`Invalid --concurrency "${concurrency}", expected a positive whole number`);
+    process.exitCode = 1;
+    process.exit();
+  }
+  process.env.EXAMPLE_CONCURRENCY = concurrency;
+}
+
 const srcDir = resolve(process.cwd(), 'src');
-async function findMatches(dir) {
+async function findMatches(dir, basePrefix) {
   try {
     const entries = await readdir(dir, { withFileTypes: true });
     const matches = [];
@@ -50,7 +168,7 @@ async function findMatches(dir) {
       if (!entry.isDirectory()) {
         continue;
       }
-      if (!entry.name.startsWith(basePrefix)) {
+      if (basePrefix !== undefined && !entry.name.startsWith(basePrefix)) {
         continue;
       }
 
@@ -78,30 +196,222 @@ async function findMatches(dir) {
   }
 }
 
-const matches = (await Promise.all([srcDir].map((dir) => findMatches(dir)))).flat();
+async function findExample(prefix) {
+  const basePrefix = `${prefix}-`;
+  const matches = await findMatches(srcDir, basePrefix);
 
-if (matches.length === 0) {
-  console.error(`No example folder starting with "${basePrefix}" found in src.`);
-  process.exitCode = 1;
-  process.exit();
+  if (matches.length === 0) {
+    console.error(`No example folder starting with "${basePrefix}" found in src.`);
+    process.exitCode = 1;
+    process.exit();
+  }
+
+  if (matches.length > 1) {
+    console.error(`Found multiple matches for prefix "${basePrefix}". Please be more specific.`);
+    matches.forEach((match) => console.error(` - ${match.displayName}`));
+    process.exitCode = 1;
+    process.exit();
+  }
+
+  return matches[0];
 }
 
-if (matches.length > 1) {
-  console.error(`Found multiple matches for prefix "${basePrefix}". Please be more specific.`);
-  matches.forEach((match) => console.error(` - ${match.displayName}`));
-  process.exitCode = 1;
-  process.exit();
+// Check the example's manifest (example.json) before running it: API keys, other variables and input files
+function preflight(match) {
+  const manifest = loadExampleManifest(match.dir);
+  if (!manifest) {
+    return;
+  }
+
+  const missing = checkExample(manifest, match.dir);
+  if (missing.length > 0) {
+    console.error(new ExampleRequirementsError(basename(match.dir), missing).message);
+    process.exitCode = 1;
+    process.exit();
+  }
 }
 
-const [match] = matches;
-const targetFile = join(match.dir, match.name);
+function printList(matches) {
+  const rows = [
+    ['Example', 'Title', 'Needs', 'Description'],
+    ...matches.map((match) => {
+      const manifest = loadExampleManifest(match.dir);
+      const needs = manifest
+        ? [...getRequiredEnv(manifest).map((env) => env.name), ...(manifest.networkTools ? ['network'] : [])]
+        : [];
+      return [
+        basename(match.dir),
+        manifest?.title ?? '-',
+        needs.length > 0 ? needs.join(', ') : '-',
+        manifest?.description ?? '(no example.json)',
+      ];
+    }),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
 
-try {
-  await import(pathToFileURL(targetFile).href);
-} catch (error) {
-  console.error(`Failed to run example "${match.displayName}".`);
-  console.error(error);
-  process.exitCode = 1;
+  console.log('📚 Examples');
+  rows.forEach((row) => console.log(`   ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()}`));
+}
+
+// Run one example in a child process of this script, the options are inherited through the environment
+function spawnExample(match, stdio) {
+  const name = basename(match.dir);
+  // The part before the first dash selects exactly this example again
+  const args = [fileURLToPath(import.meta.url), name.split('-')[0], ...flags.filter((flag) => flag !== '--parallel' && flag !== '--watch')];
+  return spawn(process.execPath, args, {
+    env: { ...process.env, EXAMPLE_NAME: name },
+    stdio,
+  });
+}
+
+// Run one example in its own process, capturing its exit status, duration and output
+function runIsolated(match) {
+  const name = basename(match.dir);
+  const startTime = Date.now();
+
+  return new Promise((resolvePromise) => {
+    const child = spawnExample(match, ['ignore', 'pipe', 'pipe']);
+
+    let output = '';
+    child.stdout.on('data', (chunk) => { output += chunk; });
+    child.stderr.on('data', (chunk) => { output += chunk; });
+
+    const finish = (exitCode) => {
+      const result = { name, exitCode, durationMs: Date.now() - startTime, output };
+      const status = exitCode === 0 ? 'passed' : 'failed';
+      console.log(`\n===== ${name} (${status} in ${(result.durationMs / 1000).toFixed(2)}s) =====`);
+      process.stdout.write(output.endsWith('\n') || output === '' ? output : `${output}\n`);
+      resolvePromise(result);
+    };
+
+    child.on('error', (error) => {
+      output += `${error}\n`;
+      finish(1);
+    });
+    child.on('close', (code, signal) => finish(code ?? (signal ? 1 : 0)));
+  });
+}
+
+function printSummary(results, wallTimeMs) {
+  const rows = [
+    ['Example', 'Status', 'Duration', 'Exit'],
+    ...results.map((result) => [
+      result.name,
+      result.exitCode === 0 ? '✅ pass' : '❌ fail',
+      `${(result.durationMs / 1000).toFixed(2)}s`,
+      String(result.exitCode),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+  const failed = results.filter((result) => result.exitCode !== 0).length;
+  console.log('\n📋 Run summary');
+  rows.forEach((row) => console.log(`   ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()}`));
+  console.log(`   ${results.length - failed} passed, ${failed} failed | wall time: ${(wallTimeMs / 1000).toFixed(2)}s`);
+}
+
+// Re-run the example on every change in its folder, cancelling the run in flight
+function watchExample(match) {
+  const WATCH_DEBOUNCE_MS = 200;
+  const name = basename(match.dir);
+  let child;
+  let timer;
+  // Set while the run in flight is being cancelled, later changes wait for the same restart
+  let restartPending = false;
+
+  const start = () => {
+    const startTime = Date.now();
+    const current = spawnExample(match, 'inherit');
+    child = current;
+    current.on('exit', (code, signal) => {
+      if (child === current) {
+        child = undefined;
+      }
+      // A cancelled run is reported by the change that cancelled it
+      if (signal !== 'SIGTERM') {
+        const status = code === 0 ? '✅ finished' : '❌ failed';
+        console.log(`\n${status} in ${((Date.now() - startTime) / 1000).toFixed(2)}s, watching ${relative(process.cwd(), match.dir)} for changes (Ctrl+C to stop)`);
+      }
+    });
+  };
+
+  const restart = (changedFile) => {
+    console.log(`\n🔁 ${changedFile ?? 'A file'} changed, re-running ${name}...\n`);
+    if (!child) {
+      start();
+      return;
+    }
+    if (restartPending) {
+      return;
+    }
+    // Start the new run once the one in flight has been cancelled
+    restartPending = true;
+    child.once('exit', () => {
+      restartPending = false;
+      start();
+    });
+    child.kill('SIGTERM');
+  };
+
+  watch(match.dir, { recursive: true }, (_eventType, changedFile) => {
+    // Run folders of --out inside the example folder are written by the run itself
+    if (process.env.EXAMPLE_OUT_DIR && changedFile && !relative(process.env.EXAMPLE_OUT_DIR, join(match.dir, changedFile)).startsWith('..')) {
+      return;
+    }
+    // Editors save in several steps, re-run once they are done
+    clearTimeout(timer);
+    timer = setTimeout(() => restart(changedFile), WATCH_DEBOUNCE_MS);
+  });
+
+  console.log(`👀 Watching ${relative(process.cwd(), match.dir)} for changes (Ctrl+C to stop)\n`);
+  start();
+}
+
+if (prefixes[0] === 'list') {
+  printList((await findMatches(srcDir, undefined)).sort((a, b) => a.dir.localeCompare(b.dir, undefined, { numeric: true })));
+} else if (watchMode) {
+  if (prefixes.length > 1 || prefixes.includes('all')) {
+    console.error('--watch runs a single example, e.g. npm run example -- 3 --watch');
+    process.exitCode = 1;
+    process.exit();
+  }
+  const match = await findExample(prefixes[0]);
+  preflight(match);
+  watchExample(match);
+} else if (prefixes.includes('all') || prefixes.length > 1) {
+  // all, or several prefixes: run each example in isolation and report a pass/fail summary
+  const selected = prefixes.includes('all')
+    ? (await findMatches(srcDir, undefined)).sort((a, b) => a.dir.localeCompare(b.dir, undefined, { numeric: true }))
+    : await Promise.all(prefixes.map((prefix) => findExample(prefix)));
+
+  const startTime = Date.now();
+  const results = [];
+  if (parallel) {
+    results.push(...await Promise.all(selected.map((match) => runIsolated(match))));
+  } else {
+    for (const match of selected) {
+      results.push(await runIsolated(match));
+    }
+  }
+
+  printSummary(results, Date.now() - startTime);
+  process.exitCode = results.some((result) => result.exitCode !== 0) ? 1 : 0;
   process.exit();
+} else {
+  const match = await findExample(prefixes[0]);
+  const targetFile = join(match.dir, match.name);
+  preflight(match);
+
+  // Lets src/setup.ts pick a per-example cassette file
+  process.env.EXAMPLE_NAME ??= basename(match.dir);
+
+  try {
+    await import(pathToFileURL(targetFile).href);
+  } catch (error) {
+    console.error(`Failed to run example "${match.displayName}".`);
+    console.error(error);
+    process.exitCode = 1;
+    process.exit();
+  }
 }
 
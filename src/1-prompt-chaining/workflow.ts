@@ -0,0 +1,103 @@
+/**
+ * PROMPT CHAINING EXAMPLE
+ *
+ * Demonstrates breaking down a complex task into a sequence of simpler steps.
+ *
+ * HOW IT WORKS:
+ * 1. Research: Gather key facts about the topic
+ * 2. Outline: Structure the information
+ * 3. Write: Create full article from the outline
+ * 4. Title: Generate a catchy headline
+ *
+ * KEY CONCEPTS:
+ * - Each step outputs feed into the next step's inputs
+ * - Linear workflow (no loops or conditionals)
+ * - Break complex tasks into manageable pieces
+ * - Clear separation of concerns
+ */
+
+import { create } from 'casai';
+import { ExampleModels, WorkflowOptions } from '../example-workflow';
+
+export interface ArticleAgentConfig {
+	temperature?: number;
+}
+
+export interface ArticleResult {
+	title: string;
+	article: string;
+	outline: string;
+	facts: string;
+}
+
+export function createArticleAgent(
+	models: Pick<ExampleModels, 'basic'>,
+	config: ArticleAgentConfig = {},
+	{ traceSteps = steps => steps, checkpointSteps = steps => steps }: WorkflowOptions = {}
+): (topic: string) => Promise<ArticleResult> {
+	// 1. Define base configuration
+	const baseLLMConfig = create.Config({
+		model: models.basic,
+		temperature: config.temperature ?? 0.7,
+	});
+
+	// 2. Define each step in the chain
+
+	// Step 1: Research phase - gather key information
+	const researcher = create.TextGenerator.withTemplate({
+		prompt: 'List 5-7 key facts or insights about {{ topic }}. Be specific and informative.',
+	}, baseLLMConfig);
+
+	// Step 2: Outline phase - structure the information
+	const outliner = create.TextGenerator.withTemplate({
+		prompt: 'Create a clear outline for an article based on these facts:\n\n{{ facts }}\n\nProvide 3-4 main sections with brief descriptions.',
+	}, baseLLMConfig);
+
+	// Step 3: Writing phase - create full content
+	const writer = create.TextGenerator.withTemplate({
+		prompt: 'Write a complete, engaging article following this outline:\n\n{{ outline }}\n\nMake it informative and easy to read.',
+	}, baseLLMConfig);
+
+	// Step 4: Title generation - create compelling headline
+	const titleGenerator = create.TextGenerator.withTemplate({
+		prompt: 'Create a catchy, engaging title for this article:\n\n{{ article }}\n\nTitle:',
+	}, baseLLMConfig);
+
+	// 3. Chain the steps together in a script, for the topic of a run
+	const articleAgent = (topic: string) => create.Script({
+		context: traceSteps({
+			// In the order they run, so a resumed run can re-run from a step onward
+			...checkpointSteps({
+				researcher,
+				outliner,
+				writer,
+				titleGenerator,
+			}),
+			topic,
+		}),
+		script: `
+			:data
+
+			// Step 1: Research the topic
+			var facts = researcher({ topic: topic }).text
+
+			// Step 2: Create an outline from the facts
+			var outline = outliner({ facts: facts }).text
+
+			// Step 3: Write the full article from the outline
+			var article = writer({ outline: outline }).text
+
+			// Step 4: Generate a title for the article
+			var title = titleGenerator({ article: article }).text
+
+			// Output the final result
+			@data.title = title
+			@data.article = article
+			@data.outline = outline
+			@data.facts = facts
+		`
+	});
+
+	// 4. Run the chain
+	return async (topic) => await articleAgent(topic)() as ArticleResult;
+}
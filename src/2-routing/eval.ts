@@ -0,0 +1,102 @@
+// Evaluates the routing classifier (see router-eval.ts) on eval-dataset.jsonl with the basic model
+// from setup.ts, and saves the report and the rows it got wrong:
+//
+//   npm run eval [-- --dataset <file>] [-- --handlers <dir>] [-- --out <dir>] [-- --concurrency <n>]
+//                [-- --baseline <report.json>] [-- --min-accuracy <0-1>]
+//
+// Without API keys: MOCK_MODELS=true npm run eval, or record once with CASSETTE_MODE=record and
+// replay in CI with CASSETTE_MODE=replay (cassettes/2-routing-eval.json).
+
+import fs from 'fs/promises';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { basicModel, advancedModel, effectiveModelConfig, traceStep } from '../setup';
+import { createInquiryClassifier } from './workflow';
+import { CLASSIFIER_PROMPT, DEFAULT_HANDLERS_DIR, formatCategoryList, loadHandlerDefinitions } from './handler-registry';
+import { EvalScores, formatEvalScores, hashText, readEvalDataset, runRouterEval, scoreEval } from './router-eval';
+
+interface EvalReport {
+	startedAt: string;
+	dataset: { file: string; hash: string; rows: number };
+	model: string;
+	promptHash: string;
+	scores: EvalScores;
+	models: unknown;
+}
+
+const { values } = parseArgs({
+	options: {
+		dataset: { type: 'string', default: fileURLToPath(new URL('./eval-dataset.jsonl', import.meta.url)) },
+		handlers: { type: 'string', default: DEFAULT_HANDLERS_DIR },
+		out: { type: 'string', default: 'runs' },
+		concurrency: { type: 'string', default: '4' },
+		baseline: { type: 'string' },
+		'min-accuracy': { type: 'string' }
+	}
+});
+
+function readNumberOption(name: string, raw: string | undefined): number | undefined {
+	if (raw === undefined) {
+		return undefined;
+	}
+	const value = Number(raw);
+	if (Number.isNaN(value)) {
+		throw new Error(`Invalid --${name} "${raw}", expected a number`);
+	}
+	return value;
+}
+
+if (!/^[1-9]\d*$/.test(values.concurrency)) {
+	console.error(`Invalid --concurrency "${values.concurrency}", expected a positive whole number`);
+	console.error('Usage: npm run eval [-- --dataset <file>] [-- --handlers <dir>] [-- --out <dir>] [-- --concurrency <n>] [-- --baseline <report.json>] [-- --min-accuracy <0-1>]');
+	process.exitCode = 1;
+	process.exit();
+}
+const concurrency = Number(values.concurrency);
+const minAccuracy = readNumberOption('min-accuracy', values['min-accuracy']);
+
+const startedAt = new Date();
+const definitions = loadHandlerDefinitions(values.handlers);
+const categories = definitions.map(definition => definition.category);
+const rows = await readEvalDataset(values.dataset, categories);
+const classify = createInquiryClassifier({ basic: basicModel, advanced: advancedModel }, { handlerDefinitions: definitions }, { traceStep });
+const predictions = await runRouterEval(rows, classify, concurrency);
+const scores = scoreEval(predictions, categories);
+
+const report: EvalReport = {
+	startedAt: startedAt.toISOString(),
+	dataset: { file: values.dataset, hash: hashText(await fs.readFile(values.dataset, 'utf-8')), rows: rows.length },
+	model: basicModel.modelId,
+	// The prompt lists the categories and descriptions of the handler files, so it changes with them
+	promptHash: hashText(`${CLASSIFIER_PROMPT}\n${formatCategoryList(definitions)}`),
+	scores,
+	models: effectiveModelConfig
+};
+
+const runDir = join(values.out, `${startedAt.toISOString().replace(/[:.]/g, '-')}-2-routing-eval`);
+await fs.mkdir(runDir, { recursive: true });
+await fs.writeFile(join(runDir, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+const disagreements = predictions.filter(prediction => prediction.predicted !== prediction.expected);
+await fs.writeFile(join(runDir, 'disagreements.jsonl'), disagreements.map(row => `${JSON.stringify(row)}\n`).join(''));
+
+console.log(`\n📊 Router eval: ${report.model}, prompt ${report.promptHash}, dataset ${report.dataset.hash} (${rows.length} rows)\n`);
+console.log(formatEvalScores(scores));
+
+if (values.baseline !== undefined) {
+	const baseline = JSON.parse(await fs.readFile(values.baseline, 'utf-8')) as EvalReport;
+	const delta = ((scores.accuracy - baseline.scores.accuracy) * 100).toFixed(1);
+	const changed = [
+		baseline.model !== report.model ? `model ${baseline.model}` : undefined,
+		baseline.promptHash !== report.promptHash ? `prompt ${baseline.promptHash}` : undefined,
+		baseline.dataset.hash !== report.dataset.hash ? `dataset ${baseline.dataset.hash} (not comparable)` : undefined
+	].filter(Boolean);
+	console.log(`\n   Baseline: ${(baseline.scores.accuracy * 100).toFixed(1)}% (${Number(delta) >= 0 ? '+' : ''}${delta} points)${changed.length ? `, was ${changed.join(', ')}` : ''}`);
+}
+
+console.log(`\n📁 Report and ${disagreements.length} disagreement(s) saved to ${runDir}`);
+
+if (minAccuracy !== undefined && scores.accuracy < minAccuracy) {
+	console.error(`\n❌ Accuracy ${(scores.accuracy * 100).toFixed(1)}% is below --min-accuracy ${minAccuracy}`);
+	process.exitCode = 1;
+}
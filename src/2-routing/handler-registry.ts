@@ -0,0 +1,129 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Handler Registry
+ *
+ * The inquiry categories of the routing example, one Markdown file per category in
+ * handlers/ (or another directory). The front matter describes the category, the body is
+ * the handler's prompt template:
+ *
+ *   ---
+ *   category: legal
+ *   description: Contracts, terms of service, data protection requests
+ *   model: advanced
+ *   ---
+ *   Provide a careful response to this legal inquiry:
+ *
+ *   {{ inquiry }}
+ *
+ * - `model`: the model role that answers - basic or advanced, with its temperature from the
+ *   agent config unless the file sets `temperature`, or another role of models.json
+ * - `critical: true`: misrouting this category is costly, so an inquiry that might belong
+ *   to it but was classified as another category goes to review
+ * - `debug: true`: Cascada debug output for the handler's template
+ *
+ * The classifier's categories and their descriptions come from the same files, so adding a
+ * file is all it takes to add a category. The descriptions are passed to the classifier
+ * prompt as text, template syntax in them is not rendered.
+ */
+
+export const DEFAULT_HANDLERS_DIR = fileURLToPath(new URL('./handlers', import.meta.url));
+
+export interface HandlerDefinition {
+	category: string;
+	description: string;
+	model: string;
+	temperature?: number;
+	critical: boolean;
+	debug: boolean;
+	prompt: string;
+	file: string;
+}
+
+const CATEGORY_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+// `key: value` lines between --- markers, then the body
+function parseHandlerFile(content: string, path: string): { fields: Record<string, string>; body: string } {
+	const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(content);
+	if (!match) {
+		throw new Error(`Invalid handler ${path}: expected front matter between --- lines`);
+	}
+	const fields: Record<string, string> = {};
+	for (const line of match[1].split(/\r?\n/).filter(line => line.trim())) {
+		const separator = line.indexOf(':');
+		if (separator <= 0) {
+			throw new Error(`Invalid handler ${path}: expected key: value, got "${line}"`);
+		}
+		fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+	}
+	return { fields, body: match[2].trim() };
+}
+
+function validateHandler(fields: Partial<Record<string, string>>, prompt: string, path: string): HandlerDefinition {
+	const { category = '', description = '', model = '' } = fields;
+	const temperature = fields.temperature !== undefined ? Number(fields.temperature) : undefined;
+	const problems = [
+		!CATEGORY_PATTERN.test(category) && '"category" must be a lowercase name, e.g. legal',
+		!description && '"description" is required',
+		!model && '"model" must be a model role, e.g. basic or advanced',
+		temperature !== undefined && Number.isNaN(temperature) && '"temperature" must be a number',
+		fields.critical !== undefined && !['true', 'false'].includes(fields.critical) && '"critical" must be true or false',
+		fields.debug !== undefined && !['true', 'false'].includes(fields.debug) && '"debug" must be true or false',
+		!prompt && 'the prompt after the front matter is empty'
+	].filter(problem => problem !== false);
+
+	if (problems.length > 0) {
+		throw new Error(`Invalid handler ${path}: ${problems.join(', ')}`);
+	}
+	return {
+		category,
+		description,
+		model,
+		temperature,
+		critical: fields.critical === 'true',
+		debug: fields.debug === 'true',
+		prompt,
+		file: path
+	};
+}
+
+// The handlers of a directory, in file name order
+export function loadHandlerDefinitions(dir: string = DEFAULT_HANDLERS_DIR): HandlerDefinition[] {
+	const files = readdirSync(dir).filter(file => file.endsWith('.md')).sort();
+
+	const definitions = files.map(file => {
+		const path = join(dir, file);
+		const { fields, body } = parseHandlerFile(readFileSync(path, 'utf-8'), path);
+		return validateHandler(fields, body, path);
+	});
+
+	if (definitions.length === 0) {
+		throw new Error(`No handlers in ${dir}, add a .md file per category`);
+	}
+	for (const definition of definitions) {
+		const duplicate = definitions.find(other => other !== definition && other.category === definition.category);
+		if (duplicate) {
+			throw new Error(`Category "${definition.category}" is defined twice, in ${definition.file} and ${duplicate.file}`);
+		}
+	}
+	return definitions;
+}
+
+// The classifier's template, the categories are rendered into it as text (see formatCategoryList)
+export const CLASSIFIER_PROMPT = [
+	'Classify this customer inquiry into one of these categories:',
+	'',
+	'INQUIRY:',
+	'{{ inquiry }}',
+	'',
+	'Categories:',
+	'{{ categoryList }}',
+	'',
+	'Return the best category, your confidence from 0 to 1, any other categories that could also apply, and a one-sentence rationale.'
+].join('\n');
+
+export function formatCategoryList(definitions: HandlerDefinition[]): string {
+	return definitions.map(({ category, description }) => `- ${category}: ${description}`).join('\n');
+}
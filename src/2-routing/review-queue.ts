@@ -0,0 +1,93 @@
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { Classification, InquiryCategory, SupportResult } from './workflow';
+
+/**
+ * Review Queue
+ *
+ * Inquiries the routing agent did not answer because their classification was uncertain
+ * (see getReviewReason in workflow.ts), one JSON object per line in review-queue.jsonl
+ * (or REVIEW_QUEUE). A reviewer approves the suggested category or re-routes the inquiry
+ * to another one with review.ts, which answers it with that category's handler:
+ *
+ *   npm run review                          list the pending inquiries
+ *   npm run review -- approve 3f9c2a1b
+ *   npm run review -- route 3f9c2a1b urgent
+ */
+
+export type ReviewStatus = 'pending' | 'approved' | 'rerouted';
+
+export interface ReviewEntry {
+	id: string;
+	createdAt: string;
+	inquiry: string;
+	classification: Classification;
+	reviewReason: string;
+	status: ReviewStatus;
+	// Set by the review: the category the inquiry was answered with, and the answer
+	reviewedAt?: string;
+	category?: InquiryCategory;
+	response?: string;
+}
+
+export class UnknownReviewEntryError extends Error {
+	constructor(public readonly id: string, public readonly path: string) {
+		super(`No inquiry "${id}" in ${path}, list them with npm run review`);
+		this.name = 'UnknownReviewEntryError';
+	}
+}
+
+export function getReviewQueuePath(): string {
+	return process.env.REVIEW_QUEUE ?? 'review-queue.jsonl';
+}
+
+export async function readReviewQueue(path: string): Promise<ReviewEntry[]> {
+	let content: string;
+	try {
+		content = await fs.readFile(path, 'utf-8');
+	} catch (error) {
+		if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+			return [];
+		}
+		throw error;
+	}
+	return content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as ReviewEntry);
+}
+
+// Queue an inquiry the agent sent to review
+export async function enqueueReview(path: string, result: SupportResult): Promise<ReviewEntry> {
+	const entry: ReviewEntry = {
+		id: randomUUID().slice(0, 8),
+		createdAt: new Date().toISOString(),
+		inquiry: result.originalInquiry,
+		classification: result.classification,
+		reviewReason: result.reviewReason ?? 'Sent to review',
+		status: 'pending'
+	};
+	await fs.appendFile(path, `${JSON.stringify(entry)}\n`);
+	return entry;
+}
+
+// Record the decision on an entry, the rest of the queue is left as it is
+export async function updateReviewEntry(
+	path: string,
+	id: string,
+	update: Pick<ReviewEntry, 'status' | 'category' | 'response'>
+): Promise<ReviewEntry> {
+	const entries = await readReviewQueue(path);
+	const entry = entries.find(candidate => candidate.id === id);
+	if (!entry) {
+		throw new UnknownReviewEntryError(id, path);
+	}
+	Object.assign(entry, update, { reviewedAt: new Date().toISOString() });
+	await fs.writeFile(path, entries.map(candidate => `${JSON.stringify(candidate)}\n`).join(''));
+	return entry;
+}
+
+export async function getReviewEntry(path: string, id: string): Promise<ReviewEntry> {
+	const entry = (await readReviewQueue(path)).find(candidate => candidate.id === id);
+	if (!entry) {
+		throw new UnknownReviewEntryError(id, path);
+	}
+	return entry;
+}
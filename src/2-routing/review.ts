@@ -0,0 +1,110 @@
+// Lists the inquiries in the review queue (see review-queue.ts) and answers them once a reviewer
+// approved the suggested category or picked another one:
+//
+//   npm run review [-- all]                  pending (or all) inquiries
+//   npm run review -- show <id>
+//   npm run review -- approve <id>
+//   npm run review -- route <id> <category>
+
+import { createSupportResponder, InquiryCategory } from './workflow';
+import { loadHandlerDefinitions } from './handler-registry';
+import {
+	getReviewEntry,
+	getReviewQueuePath,
+	readReviewQueue,
+	ReviewEntry,
+	UnknownReviewEntryError,
+	updateReviewEntry
+} from './review-queue';
+
+const PREVIEW_LIMIT = 60;
+
+// The handler files in handlers/, loaded once for the categories and the answers
+const handlerDefinitions = loadHandlerDefinitions();
+const categories = handlerDefinitions.map(definition => definition.category);
+
+const USAGE = [
+	'Usage: npm run review [-- all]',
+	'       npm run review -- show <id>',
+	'       npm run review -- approve <id>',
+	`       npm run review -- route <id> ${categories.join('|')}`
+].join('\n');
+
+function preview(text: string): string {
+	const line = text.replace(/\s+/g, ' ');
+	return line.length > PREVIEW_LIMIT ? `${line.slice(0, PREVIEW_LIMIT)}...` : line;
+}
+
+function printEntries(entries: ReviewEntry[]) {
+	if (entries.length === 0) {
+		console.log('No inquiries to review');
+		return;
+	}
+	console.log('\n📥 Review queue\n');
+	for (const entry of entries) {
+		const { category, confidence } = entry.classification;
+		const status = entry.status === 'pending' ? '' : ` [${entry.status}${entry.category ? `: ${entry.category}` : ''}]`;
+		console.log(`${entry.id}  ${category} (${confidence})${status}  ${preview(entry.inquiry)}`);
+		console.log(`          ${entry.reviewReason}`);
+	}
+}
+
+function printEntry(entry: ReviewEntry) {
+	const { category, confidence, secondaryCategories, rationale } = entry.classification;
+	console.log(`Inquiry:     ${entry.inquiry}`);
+	console.log(`Suggested:   ${category} (confidence ${confidence})`);
+	console.log(`Also:        ${secondaryCategories.join(', ') || '-'}`);
+	console.log(`Rationale:   ${rationale}`);
+	console.log(`Review:      ${entry.reviewReason}`);
+	console.log(`Status:      ${entry.status}${entry.category ? ` (${entry.category}, ${entry.reviewedAt})` : ''}`);
+	if (entry.response !== undefined) {
+		console.log(`\n${entry.response}`);
+	}
+}
+
+// Answer with the handler of the category, the models are only set up for this
+async function answer(path: string, entry: ReviewEntry, category: InquiryCategory) {
+	process.env.EXAMPLE_NAME ??= '2-routing';
+	const { basicModel, advancedModel, getModel, traceStep } = await import('../setup');
+	const supportResponder = createSupportResponder({ basic: basicModel, advanced: advancedModel }, { handlerDefinitions }, { traceStep, getModel });
+
+	const response = await supportResponder(entry.inquiry, category);
+	const status = category === entry.classification.category ? 'approved' : 'rerouted';
+	await updateReviewEntry(path, entry.id, { status, category, response });
+	console.log(`\n✅ ${entry.id} ${status} as ${category}\n\n${response}`);
+}
+
+function fail(message: string) {
+	console.error(message);
+	process.exitCode = 1;
+}
+
+const args = process.argv.slice(2);
+const [command = 'list', id, category] = args;
+const path = getReviewQueuePath();
+
+if (command === 'list' || command === 'all') {
+	const entries = await readReviewQueue(path);
+	printEntries(command === 'all' ? entries : entries.filter(entry => entry.status === 'pending'));
+} else if (!['show', 'approve', 'route'].includes(command) || args.length < (command === 'route' ? 3 : 2)) {
+	fail(USAGE);
+} else if (command === 'route' && !categories.includes(category)) {
+	fail(`Invalid category "${category}", expected one of: ${categories.join(', ')}`);
+} else {
+	try {
+		const entry = await getReviewEntry(path, id);
+		if (command === 'show') {
+			printEntry(entry);
+		} else if (entry.status !== 'pending') {
+			fail(`${entry.id} was already reviewed (${entry.status}: ${entry.category})`);
+		} else {
+			await answer(path, entry, command === 'approve' ? entry.classification.category : category);
+		}
+	} catch (error) {
+		// An id that is not in the queue (or was removed while answering)
+		if (!(error instanceof UnknownReviewEntryError)) {
+			throw error;
+		}
+		fail(error.message);
+	}
+}
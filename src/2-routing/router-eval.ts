@@ -0,0 +1,166 @@
+import fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { runBatch } from '../example-batch';
+import { Classification, InquiryCategory } from './workflow';
+
+/**
+ * Router Evaluation
+ *
+ * Scores the inquiry classifier on a labeled dataset: accuracy, precision and recall per
+ * category, and a confusion matrix of expected against predicted categories. Classifier
+ * calls that fail are counted as wrong and shown in an `error` column.
+ *
+ * The dataset is JSONL with one `{ "inquiry": "...", "expected": "<category>" }` per line
+ * (see eval-dataset.jsonl), the categories are those of the handler files. Reports carry a
+ * hash of the dataset and of the classifier prompt, so results of different prompt versions,
+ * handler sets and models can be compared. eval.ts is the CLI.
+ */
+
+export interface EvalRow {
+	inquiry: string;
+	expected: InquiryCategory;
+}
+
+export interface EvalPrediction extends EvalRow {
+	// A category, or 'error' when the classifier call failed
+	predicted: InquiryCategory;
+	confidence?: number;
+	rationale?: string;
+	error?: string;
+}
+
+export interface CategoryMetrics {
+	// Null when the category was never predicted
+	precision: number | null;
+	// Null when the dataset has no inquiries of the category
+	recall: number | null;
+	support: number;
+}
+
+export interface EvalScores {
+	total: number;
+	correct: number;
+	errors: number;
+	accuracy: number;
+	perCategory: Record<InquiryCategory, CategoryMetrics>;
+	// confusion[expected][predicted] = number of inquiries, with an 'error' column
+	confusion: Record<InquiryCategory, Record<InquiryCategory, number>>;
+}
+
+const ERROR_COLUMN = 'error';
+
+export function hashText(text: string): string {
+	return createHash('sha256').update(text).digest('hex').slice(0, 12);
+}
+
+export async function readEvalDataset(file: string, categories: InquiryCategory[]): Promise<EvalRow[]> {
+	const lines = (await fs.readFile(file, 'utf-8')).split('\n');
+
+	const rows = lines.flatMap((line, i) => {
+		if (!line.trim()) {
+			return [];
+		}
+		const location = `${file}:${i + 1}`;
+		let row: Record<string, unknown>;
+		try {
+			row = JSON.parse(line) as Record<string, unknown>;
+		} catch {
+			throw new Error(`Invalid JSON in ${location}`);
+		}
+		if (typeof row.inquiry !== 'string' || !row.inquiry.trim()) {
+			throw new Error(`Missing "inquiry" in ${location}`);
+		}
+		if (typeof row.expected !== 'string' || !categories.includes(row.expected)) {
+			throw new Error(`Invalid "expected" category ${JSON.stringify(row.expected)} in ${location}, expected one of: ${categories.join(', ')}`);
+		}
+		return [{ inquiry: row.inquiry, expected: row.expected }];
+	});
+	if (rows.length === 0) {
+		throw new Error(`The dataset ${file} has no rows`);
+	}
+	return rows;
+}
+
+// Classify every row, a few at a time
+export async function runRouterEval(
+	rows: EvalRow[],
+	classify: (inquiry: string) => Promise<Classification>,
+	concurrency: number
+): Promise<EvalPrediction[]> {
+	const items = await runBatch(rows.map(row => row.inquiry), classify, concurrency);
+	return items.map((item, i) => item.ok
+		? { ...rows[i], predicted: item.result.category, confidence: item.result.confidence, rationale: item.result.rationale }
+		: { ...rows[i], predicted: ERROR_COLUMN, error: item.error });
+}
+
+function ratio(count: number, total: number): number | null {
+	return total > 0 ? count / total : null;
+}
+
+// Scores against the given categories, a prediction outside of them counts as wrong
+export function scoreEval(predictions: EvalPrediction[], categories: InquiryCategory[]): EvalScores {
+	const columns = [...categories, ERROR_COLUMN];
+	const confusion: EvalScores['confusion'] = Object.fromEntries(categories.map(expected => [
+		expected,
+		Object.fromEntries(columns.map(predicted => [predicted, 0]))
+	]));
+	for (const { expected, predicted } of predictions) {
+		const column = columns.includes(predicted) ? predicted : ERROR_COLUMN;
+		confusion[expected][column]++;
+	}
+
+	const perCategory: EvalScores['perCategory'] = Object.fromEntries(categories.map(category => {
+		const truePositives = confusion[category][category];
+		const predictedCount = categories.reduce((sum, expected) => sum + confusion[expected][category], 0);
+		const support = predictions.filter(prediction => prediction.expected === category).length;
+		return [category, {
+			precision: ratio(truePositives, predictedCount),
+			recall: ratio(truePositives, support),
+			support
+		}];
+	}));
+
+	const correct = predictions.filter(prediction => prediction.predicted === prediction.expected).length;
+	return {
+		total: predictions.length,
+		correct,
+		errors: predictions.filter(prediction => prediction.predicted === ERROR_COLUMN).length,
+		accuracy: ratio(correct, predictions.length) ?? 0,
+		perCategory,
+		confusion
+	};
+}
+
+function percent(value: number | null): string {
+	return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatTable(rows: string[][]): string[] {
+	const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+	return rows.map(row => `   ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()}`);
+}
+
+export function formatEvalScores(scores: EvalScores): string {
+	const categories = Object.keys(scores.perCategory);
+	const columns = [...categories, ERROR_COLUMN];
+	return [
+		`Accuracy: ${percent(scores.accuracy)} (${scores.correct}/${scores.total} correct${scores.errors ? `, ${scores.errors} failed` : ''})`,
+		'',
+		...formatTable([
+			['Category', 'Precision', 'Recall', 'Support'],
+			...categories.map(category => {
+				const { precision, recall, support } = scores.perCategory[category];
+				return [category, percent(precision), percent(recall), String(support)];
+			})
+		]),
+		'',
+		'   Confusion matrix (rows: expected, columns: predicted)',
+		...formatTable([
+			['', ...columns],
+			...categories.map(expected => [
+				expected,
+				...columns.map(predicted => String(scores.confusion[expected][predicted]))
+			])
+		])
+	].join('\n');
+}
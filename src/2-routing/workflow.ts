@@ -0,0 +1,226 @@
+/**
+ * ROUTING PATTERN EXAMPLE
+ *
+ * Demonstrates routing different types of inputs to specialized handlers.
+ *
+ * HOW IT WORKS:
+ * 1. Classify: Determine the category of the customer inquiry, with a confidence and rationale
+ * 2. Escalate: Uncertain classifications go to human review instead (see review-queue.ts)
+ * 3. Route: Send to the appropriate specialized handler
+ * 4. Process: Each handler is optimized for its specific type
+ * 5. Respond: Return tailored response
+ *
+ * KEY CONCEPTS:
+ * - Categories and handlers defined by template files (see handlers/)
+ * - Input classification before processing
+ * - Specialized handlers for different categories
+ * - Conditional branching (switch/if-else)
+ * - Different models/configs per handler type
+ * - Efficient resource usage (right tool for the job)
+ */
+
+import { create } from 'casai';
+import { z } from 'zod';
+import { LanguageModelV2 } from '@ai-sdk/provider';
+import { ExampleModels, WorkflowOptions } from '../example-workflow';
+import { CLASSIFIER_PROMPT, DEFAULT_HANDLERS_DIR, formatCategoryList, HandlerDefinition, loadHandlerDefinitions } from './handler-registry';
+
+// One of the categories in the handlers directory (see handler-registry.ts)
+export type InquiryCategory = string;
+
+export interface Classification {
+	category: InquiryCategory;
+	confidence: number;
+	secondaryCategories: InquiryCategory[];
+	rationale: string;
+}
+
+// The classifier's output, limited to the categories of the handlers
+function createClassificationSchema(categories: [string, ...string[]]) {
+	return z.object({
+		category: z.enum(categories).describe('The category that fits the inquiry best.'),
+		confidence: z.number().min(0).max(1).describe('How sure the classification is, from 0 to 1.'),
+		secondaryCategories: z.array(z.enum(categories)).describe('Other categories the inquiry could also belong to, most likely first.'),
+		rationale: z.string().describe('One sentence on why the inquiry belongs to the category.'),
+	});
+}
+
+export interface SupportAgentConfig {
+	// Classifier and the handlers on the basic model
+	quickTemperature?: number;
+	// Handlers on the advanced model
+	detailedTemperature?: number;
+	// Classifications below this confidence (0-1) go to review instead of being answered
+	confidenceThreshold?: number;
+	// Directory with a handler file per category (see handler-registry.ts)
+	handlersDir?: string;
+	// Handlers already loaded with loadHandlerDefinitions, instead of reading handlersDir again
+	handlerDefinitions?: HandlerDefinition[];
+}
+
+export interface SupportResult {
+	category: InquiryCategory;
+	classification: Classification;
+	// 'review' when the inquiry was not answered because the classification needs a human look
+	status: 'answered' | 'review';
+	reviewReason?: string;
+	response?: string;
+	originalInquiry: string;
+}
+
+function getHandlerDefinitions(config: SupportAgentConfig): HandlerDefinition[] {
+	return config.handlerDefinitions ?? loadHandlerDefinitions(config.handlersDir ?? DEFAULT_HANDLERS_DIR);
+}
+
+// Handler files can only use basic and advanced unless the caller resolves other roles
+function rejectModelRole(role: string): never {
+	throw new Error(`Unknown model role "${role}", expected basic or advanced`);
+}
+
+// Why a classification should not be answered automatically, undefined when it can be
+export function getReviewReason(
+	classification: Classification,
+	confidenceThreshold: number,
+	criticalCategories: InquiryCategory[]
+): string | undefined {
+	// Sending e.g. a security issue or outage to a slower handler is the costliest mistake
+	const missedCritical = classification.secondaryCategories.find(category =>
+		criticalCategories.includes(category) && category !== classification.category
+	);
+	if (missedCritical !== undefined && !criticalCategories.includes(classification.category)) {
+		return `Possibly ${missedCritical}, classified as ${classification.category}`;
+	}
+	if (classification.confidence < confidenceThreshold) {
+		return `Confidence ${classification.confidence} is below ${confidenceThreshold}`;
+	}
+	return undefined;
+}
+
+function createRoleConfigs(
+	models: ExampleModels,
+	config: SupportAgentConfig,
+	getModel: (role: string) => LanguageModelV2
+) {
+	// 1. Define configurations for different handler types
+	const quickResponseConfig = create.Config({
+		model: models.basic,
+		temperature: config.quickTemperature ?? 0.4, // Lower temperature for consistent, factual responses
+	});
+
+	const detailedResponseConfig = create.Config({
+		model: models.advanced,
+		temperature: config.detailedTemperature ?? 0.7, // Higher temperature for more creative, empathetic responses
+	});
+
+	return (role: string) => {
+		switch (role) {
+			case 'basic':
+				return quickResponseConfig;
+			case 'advanced':
+				return detailedResponseConfig;
+			default:
+				// Another role of models.json, with the temperature of the handler file or the model's default
+				return create.Config({ model: getModel(role) });
+		}
+	};
+}
+
+// 2. Define the classifier, with the categories and descriptions of the handler files
+function createClassifier(definitions: HandlerDefinition[], roleConfig: ReturnType<typeof createRoleConfigs>) {
+	return create.ObjectGenerator.withTemplate({
+		output: 'object',
+		schema: createClassificationSchema(definitions.map(definition => definition.category) as [string, ...string[]]),
+		prompt: CLASSIFIER_PROMPT,
+		// Rendered as text, so template syntax in a description stays as it is
+		context: { categoryList: formatCategoryList(definitions) },
+	}, roleConfig('basic'));
+}
+
+// 3. Define a handler for each category, with the prompt and model role of its file
+function createCategoryHandlers(definitions: HandlerDefinition[], roleConfig: ReturnType<typeof createRoleConfigs>) {
+	return Object.fromEntries(definitions.map(definition => [
+		definition.category,
+		create.TextGenerator.withTemplate({
+			prompt: definition.prompt,
+			...(definition.temperature !== undefined ? { temperature: definition.temperature } : {}),
+			...(definition.debug ? { debug: true } : {}),
+		}, roleConfig(definition.model)),
+	]));
+}
+
+export function createSupportAgent(
+	models: ExampleModels,
+	config: SupportAgentConfig = {},
+	{ traceSteps = steps => steps, getModel = rejectModelRole }: WorkflowOptions = {}
+): (inquiry: string) => Promise<SupportResult> {
+	const definitions = getHandlerDefinitions(config);
+	const roleConfig = createRoleConfigs(models, config, getModel);
+	const inquiryClassifier = createClassifier(definitions, roleConfig);
+	const handlers = createCategoryHandlers(definitions, roleConfig);
+	const criticalCategories = definitions.filter(definition => definition.critical).map(definition => definition.category);
+	const confidenceThreshold = config.confidenceThreshold ?? 0.7;
+
+	// 4. Create the routing script, for the inquiry of a run
+	const supportAgent = (inquiry: string) => create.Script({
+		context: traceSteps({
+			inquiryClassifier,
+			handlers,
+			getReviewReason: (classification: Classification) => getReviewReason(classification, confidenceThreshold, criticalCategories),
+			inquiry
+		}),
+		debug: true,
+		script: `
+			:data
+
+			// Step 1: Classify the inquiry
+			var classification = inquiryClassifier({ inquiry: inquiry }).object
+
+			// Step 2: Escalate uncertain classifications to a human instead of guessing
+			var reviewReason = getReviewReason(classification)
+
+			// Step 3: Route to appropriate handler based on classification
+			if reviewReason
+				@data.status = 'review'
+				@data.reviewReason = reviewReason
+			else
+				@data.status = 'answered'
+				@data.response = handlers[classification.category]({ inquiry: inquiry }).text
+			endif
+
+			// Step 4: Assemble the result with metadata
+			@data.category = classification.category
+			@data.classification = classification
+			@data.originalInquiry = inquiry
+		`
+	});
+
+	// 5. Run the routing agent
+	return async (inquiry) => await supportAgent(inquiry)() as SupportResult;
+}
+
+// Only the classification step, for evaluating it on labeled inquiries (see router-eval.ts)
+export function createInquiryClassifier(
+	models: ExampleModels,
+	config: SupportAgentConfig = {},
+	{ traceStep = (_name, step) => step }: WorkflowOptions = {}
+): (inquiry: string) => Promise<Classification> {
+	const roleConfig = createRoleConfigs(models, config, rejectModelRole);
+	const inquiryClassifier = traceStep('inquiryClassifier', createClassifier(getHandlerDefinitions(config), roleConfig));
+	return async (inquiry) => (await inquiryClassifier({ inquiry })).object as Classification;
+}
+
+// Answers an inquiry with the handler of a category picked by a reviewer, without classifying it
+export function createSupportResponder(
+	models: ExampleModels,
+	config: SupportAgentConfig = {},
+	{ traceStep = (_name, step) => step, getModel = rejectModelRole }: WorkflowOptions = {}
+): (inquiry: string, category: InquiryCategory) => Promise<string> {
+	const handlers = createCategoryHandlers(getHandlerDefinitions(config), createRoleConfigs(models, config, getModel));
+	return async (inquiry, category) => {
+		if (!(category in handlers)) {
+			throw new Error(`Unknown category "${category}", expected one of: ${Object.keys(handlers).join(', ')}`);
+		}
+		const handler = traceStep(`handlers.${category}`, handlers[category]);
+		return (await handler({ inquiry })).text;
+	};
+}
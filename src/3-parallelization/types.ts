@@ -63,6 +63,14 @@ export interface RankedStockAnalysis extends StockAnalysis {
 	rank: number;
 }
 
+export interface StockAnalysisResult {
+	markets: string[];
+	total: number;
+	analyzed: number;
+	skipped: number;
+	topStocks: RankedStockAnalysis[];
+}
+
 export interface Config {
 	marketContext: string;
 	preferCriteria: string;
@@ -0,0 +1,261 @@
+/**
+ * PARALLELIZATION PATTERN EXAMPLE
+ *
+ * Demonstrates automatic parallel execution through simple for loops.
+ *
+ * HOW IT WORKS:
+ * 1. Identify markets
+ * 2. Find stocks (for loop - Cascada parallelizes)
+ * 3. Analyze stocks (for loop - Cascada parallelizes)
+ * 4. Rank in JS
+ *
+ * KEY CONCEPTS:
+ * - Write simple for loops - Cascada parallelizes automatically
+ * - Use capture:data with @data.push to collect parallel results
+ * - TextGenerator for prose, ObjectGenerator for structured data
+ * - Use output: 'array' for simple array outputs
+ * - Do math and sorting in JS, not in LLM
+ * - Templates for all text formatting (prompts and output)
+ */
+
+import { create, FileSystemLoader } from 'casai';
+import { z } from 'zod';
+import { fileURLToPath } from 'url';
+import { ExampleModels, WorkflowOptions } from '../example-workflow';
+import * as types from './types';
+
+export interface StockAnalysisAgentConfig {
+	// Information extraction
+	quickTemperature?: number;
+	// Markets, stock picks, analyses and scores
+	analyticalTemperature?: number;
+}
+
+// Shared loader for all templates (instead of path)
+const templatesDir = fileURLToPath(new URL('./templates', import.meta.url));
+const templateLoader = new FileSystemLoader(templatesDir);
+
+// JS helper functions (with proper types)
+// Now it THROWS so Cascada can detect with `is error` in the script
+async function fetchYahooFinance(ticker: string): Promise<string> {
+	const response = await fetch(`https://finance.yahoo.com/quote/${ticker}/`);
+	if (!response.ok) {
+		throw new Error(`Failed to fetch Yahoo Finance data for ${ticker}`);
+	}
+	const html = await response.text();
+	return html.substring(0, 50000);
+}
+
+function calculateFinalScore(scores: types.ComponentScores): number {
+	return (
+		scores.criteriaAlignment * 0.3 +
+		scores.financialStrength * 0.2 +
+		scores.growthPotential * 0.25 +
+		scores.marketPosition * 0.15 +
+		scores.contrarianScore * 0.1 -
+		scores.riskLevel * 0.25
+	);
+}
+
+// fixed version (no TS typos)
+function rankAndFilter(analyses: types.StockAnalysis[], config: types.Config): types.RankedStockAnalysis[] {
+	const sorted = [...analyses].sort((a, b) => b.finalScore - a.finalScore);
+	const result: types.RankedStockAnalysis[] = [];
+	const marketCounts: Record<string, number> = {};
+
+	for (const stock of sorted) {
+		const count = marketCounts[stock.market] || 0;
+		if (count < config.numMaxStocksPerMarket && result.length < config.numTopStocks) {
+			result.push({
+				rank: result.length + 1,
+				...stock,
+			});
+			marketCounts[stock.market] = count + 1;
+		}
+	}
+	return result;
+}
+
+// Format the result as a text report
+const outputTemplate = create.Template.loadsTemplate({
+	loader: templateLoader,
+	template: 'output.txt',
+});
+
+export async function renderStockReport(result: types.StockAnalysisResult): Promise<string> {
+	return await outputTemplate(result) as string;
+}
+
+export function createStockAnalysisAgent(
+	models: ExampleModels,
+	config: StockAnalysisAgentConfig = {},
+	{ traceSteps = steps => steps, checkpointSteps = steps => steps }: WorkflowOptions = {}
+): (input: types.Config) => Promise<types.StockAnalysisResult> {
+	// Define model configurations
+	const quickConfig = create.Config({
+		model: models.basic,
+		temperature: config.quickTemperature ?? 0.4,
+	});
+
+	const analyticalConfig = create.Config({
+		model: models.advanced,
+		temperature: config.analyticalTemperature ?? 0.7,
+	});
+
+	// Define generators - all loading from templates folder
+
+	const marketIdentifier = create.ObjectGenerator.loadsTemplate({
+		loader: templateLoader,
+		output: 'array',
+		// Cascada wants schema even for string array outputs
+		schema: z.string(),
+		prompt: 'identify-markets.md',
+	}, analyticalConfig);
+
+	const stockFinder = create.ObjectGenerator.loadsTemplate({
+		loader: templateLoader,
+		output: 'object',
+		schema: types.StockListSchema,
+		prompt: 'find-stocks.md',
+	}, analyticalConfig);
+
+	const companyInfoExtractor = create.TextGenerator.loadsTemplate({
+		loader: templateLoader,
+		prompt: 'extract-info.md',
+	}, quickConfig);
+
+	const analysisWriter = create.TextGenerator.loadsTemplate({
+		loader: templateLoader,
+		prompt: 'analyze.md',
+	}, analyticalConfig);
+
+	const componentScorer = create.ObjectGenerator.loadsTemplate({
+		loader: templateLoader,
+		output: 'object',
+		schema: types.ComponentScoresSchema,
+		prompt: 'score-components.md',
+	}, analyticalConfig);
+
+	// Load text templates
+
+	const investmentContextTemplate = create.Template.loadsTemplate({
+		loader: templateLoader,
+		template: 'investment-context.txt',
+	});
+
+	// 6. Create the orchestrator script
+	const stockAnalysisAgent = (input: types.Config) => create.Script({
+		schema: types.StockAnalysisResultSchema,
+		context: traceSteps({
+			config: input,
+			// The model calls, in the order they run, so a resumed run can re-run from a step onward.
+			// The pages are fetched again and can change, so the extracted info is keyed on the ticker
+			...checkpointSteps({
+				marketIdentifier,
+				stockFinder,
+				companyInfoExtractor,
+				analysisWriter,
+				componentScorer,
+			}, {
+				companyInfoExtractor: ({ ticker }: { ticker: string }) => ticker
+			}),
+			fetchYahooFinance,
+			investmentContextTemplate,
+			calculateFinalScore,
+			rankAndFilter
+		}),
+		script: `:data
+			// Create reusable investment context string
+			var investmentContext = investmentContextTemplate(config)
+
+			// STEP 1: Identify markets (returns string array directly)
+			var markets = marketIdentifier(config).object
+
+			// STEP 2: Find stocks (parallel per market via for loop)
+			var allStocks = capture :data
+				@data = [] // will not be needed in the future
+				for market in markets
+					var result = stockFinder({
+						marketName: market,
+						investmentContext: investmentContext,
+						numStocksPerMarket: config.numStocksPerMarket
+					}).object.stocks
+
+					if result is not error
+						for stock in result
+							if stock is not error
+								@data.push({
+									companyName: stock.companyName,
+									ticker: stock.ticker,
+									market: market
+								})
+							endif
+						endfor
+					endif
+				endfor
+			endcapture
+
+			// STEP 3: Analyze stocks (parallel via for loop)
+			var analyses = capture :data
+				@data = [] // will not be needed in the future
+				for stock in allStocks
+					// this will be 'error' if fetchYahooFinance threw in JS
+					var yahooData = fetchYahooFinance(stock.ticker)
+
+					if yahooData is not error
+						var companyInfo = companyInfoExtractor({
+							ticker: stock.ticker,
+							yahooData: yahooData
+						}).text
+
+						if companyInfo is not error
+							var analysis = analysisWriter({
+								ticker: stock.ticker,
+								companyName: stock.companyName,
+								market: stock.market,
+								companyInfo: companyInfo,
+								investmentContext: investmentContext
+							}).text
+
+							var scores = componentScorer({
+								ticker: stock.ticker,
+								companyName: stock.companyName,
+								analysis: analysis,
+								investmentContext: investmentContext
+							}).object
+
+							var finalScore = calculateFinalScore(scores)
+
+							@data.push({
+								ticker: stock.ticker,
+								companyName: stock.companyName,
+								market: stock.market,
+								analysis: analysis,
+								criteriaAlignment: scores.criteriaAlignment,
+								financialStrength: scores.financialStrength,
+								growthPotential: scores.growthPotential,
+								marketPosition: scores.marketPosition,
+								contrarianScore: scores.contrarianScore,
+								riskLevel: scores.riskLevel,
+								finalScore: finalScore
+							})
+						endif
+					endif
+				endfor
+			endcapture
+
+			// STEP 4: Rank and filter in JS
+			var topStocks = rankAndFilter(analyses, config)
+
+			// OUTPUT
+			@data.markets = markets
+			@data.total = allStocks.length
+			@data.analyzed = analyses.length
+			@data.skipped = allStocks.length - analyses.length
+			@data.topStocks = topStocks
+		`
+	});
+
+	// Run the agent for the markets and criteria of the input
+	return async (input) => await stockAnalysisAgent(input)() as types.StockAnalysisResult;
+}
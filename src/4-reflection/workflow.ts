@@ -0,0 +1,127 @@
+/**
+ * REFLECTION PATTERN EXAMPLE
+ *
+ * Demonstrates an AI agent that improves its own output through self-critique.
+ *
+ * HOW IT WORKS:
+ * 1. Generate an initial draft
+ * 2. Critique the draft (get score + suggestions)
+ * 3. If score < threshold: revise based on suggestions
+ * 4. Critique again - only keep revision if it improves the score
+ * 5. Repeat until quality threshold met or max revisions reached
+ *
+ * KEY CONCEPTS:
+ * - Self-improvement loop with structured feedback
+ * - Multiple AI calls orchestrated in sequence
+ * - Conditional logic to accept/reject revisions
+ * - Using advanced model for critique, basic model for generation
+ */
+
+import { create } from 'casai';
+import { z } from 'zod';
+import { ExampleModels, WorkflowOptions } from '../example-workflow';
+
+export interface ContentAgentConfig {
+	temperature?: number;
+	// Critique score (1-10) a draft needs to stop revising
+	qualityThreshold?: number;
+	maxRevisions?: number;
+}
+
+export interface ContentResult {
+	finalDraft: string;
+	finalScore: number;
+	revisionsMade: number;
+}
+
+export function createContentAgent(
+	models: ExampleModels,
+	config: ContentAgentConfig = {},
+	{ traceSteps = steps => steps }: WorkflowOptions = {}
+): (topic: string) => Promise<ContentResult> {
+	// 1. Define a reusable base configuration using basicModel
+	const baseLLMConfig = create.Config({
+		model: models.basic, //e.g. openai('gpt-4.1-nano');
+		temperature: config.temperature ?? 0.7,
+		//debug: true,
+	});
+
+	// 2. Define the Agent's Core Capabilities (Renderers)
+
+	// 2.1. A renderer to write drafts (inherits the model from baseConfig)
+	const draftGenerator = create.TextGenerator.withTemplate({
+		prompt: 'Write a short, engaging blog post about {{ topic }}.',
+	}, baseLLMConfig);
+
+	// 2.2. A renderer to critique drafts using a structured schema.
+	// This overrides the model to use the advanced model
+	const critiqueGenerator = create.ObjectGenerator.withTemplate({
+		model: models.advanced, // e.g. anthropic('claude-3-7-sonnet-latest')
+		output: 'object',
+		schema: z.object({
+			score: z.number().int().min(1).max(10).describe('Quality score from 1-10 on clarity and engagement.'),
+			suggestions: z.array(z.string()).min(1).describe('List of specific, actionable suggestions for improvement.'),
+		}),
+		prompt: 'Critique this blog post. Provide a quality score and concrete suggestions for improvement.\n\nPOST:\n{{ draft }}',
+	}, baseLLMConfig);
+
+	// A renderer to rewrite a draft based on feedback (inherits GPT-4o)
+	const revisionGenerator = create.TextGenerator.withTemplate({
+		prompt: 'Rewrite the following blog post based on the suggestions provided.\n\nORIGINAL POST:\n{{ draft }}\n\nSUGGESTIONS:\n- {{ suggestions | join("\n- ") }}\n\nREVISED POST:',
+	}, baseLLMConfig);
+
+	// 3. Define the Orchestrator Script, for the topic of a run
+	const contentAgent = (topic: string) => create.Script({
+		context: traceSteps({
+			// Provide the renderers to the script
+			draftGenerator,
+			critiqueGenerator,
+			revisionGenerator,
+			// Define workflow parameters
+			topic,
+			qualityThreshold: config.qualityThreshold ?? 8,
+			maxRevisions: config.maxRevisions ?? 3,
+		}),
+		script: // This script orchestrates the agent's "thought process".
+	    `:data
+
+	    // --- Generate and critique the initial draft ---
+	    var currentDraft = draftGenerator({ topic: topic }).text
+	    var critiqueResult = critiqueGenerator({ draft: currentDraft }).object
+	    var revisionCount = 0
+	    var revisionFailed = false
+
+	    // --- Revision loop: keep improving until we hit quality threshold or max revisions ---
+	    while critiqueResult.score < qualityThreshold and revisionCount < maxRevisions and not revisionFailed
+	        revisionCount = revisionCount + 1
+
+	        // Revise the draft based on current critique
+	        var revisedDraft = revisionGenerator({
+	            draft: currentDraft,
+	            suggestions: critiqueResult.suggestions
+	        }).text
+
+	        // Critique the revised draft
+	        var newCritique = critiqueGenerator({ draft: revisedDraft }).object
+
+	        // Stop revising if the revision failed (e.g. BudgetExceededError) - keep the best draft so far
+	        if newCritique is error
+	            revisionFailed = true
+	        else
+	            // Only accept the revision if it's an improvement
+	            if newCritique.score >= critiqueResult.score
+	                currentDraft = revisedDraft
+	                critiqueResult = newCritique
+	            endif
+	        endif
+	    endwhile
+
+	    // --- Assemble the final result ---
+	    @data.finalDraft = currentDraft
+	    @data.finalScore = critiqueResult.score
+	    @data.revisionsMade = revisionCount`
+	});
+
+	// 4. Run the Agent
+	return async (topic) => await contentAgent(topic)() as ContentResult;
+}
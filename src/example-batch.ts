@@ -0,0 +1,220 @@
+import fs from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { SpendSummary } from './model-costs';
+
+/**
+ * Example Batches
+ *
+ * Runs an example's workflow for every input in a list file, a few at a time, and saves one
+ * Markdown document per input plus an index to a batch folder. An input that fails is
+ * reported in the summary and the index, the other inputs still run:
+ *
+ *   npm run example -- 1 --batch topics.txt --concurrency 4 --out runs
+ *
+ *   runs/2026-10-18T09-12-44-021Z-1-prompt-chaining-batch/
+ *     01-renewable-energy.md   one document per successful input
+ *     index.md                 every input with its document, or its error
+ *     batch.json               inputs, status, document, error and duration, and the spend
+ *
+ * The list file has one input per line (empty lines and # comments are skipped), or is a
+ * .jsonl file with a JSON string or an object with the input field on each line.
+ * scripts/run-example.mjs passes the options on as EXAMPLE_BATCH and EXAMPLE_CONCURRENCY,
+ * the folder goes to EXAMPLE_OUT_DIR (default: runs).
+ */
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_OUT_DIR = 'runs';
+const SLUG_LIMIT = 60;
+
+export type BatchItem<T> =
+	| { index: number; input: string; ok: true; result: T; durationMs: number }
+	| { index: number; input: string; ok: false; error: string; durationMs: number };
+
+export interface BatchOptions {
+	file: string;
+	concurrency: number;
+}
+
+// The batch of this run, undefined without --batch
+export function getBatchOptions(): BatchOptions | undefined {
+	const file = process.env.EXAMPLE_BATCH;
+	if (file === undefined) {
+		return undefined;
+	}
+	const raw = process.env.EXAMPLE_CONCURRENCY;
+	const concurrency = raw !== undefined ? Number(raw) : DEFAULT_CONCURRENCY;
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new Error(`Invalid --concurrency "${raw}", expected a positive whole number`);
+	}
+	return { file, concurrency };
+}
+
+function parseJsonLine(line: string, field: string, location: string): string {
+	let value: unknown;
+	try {
+		value = JSON.parse(line);
+	} catch {
+		throw new Error(`Invalid JSON in ${location}`);
+	}
+	if (value !== null && typeof value === 'object' && field in value) {
+		value = (value as Record<string, unknown>)[field];
+	}
+	if (typeof value !== 'string' || !value.trim()) {
+		throw new Error(`Expected a string or an object with a "${field}" string in ${location}`);
+	}
+	return value.trim();
+}
+
+// Inputs of a .txt (one per line) or .jsonl list file, `field` is the input's key in JSONL objects
+export async function readBatchInputs(file: string, field: string): Promise<string[]> {
+	const lines = (await fs.readFile(file, 'utf-8')).split('\n');
+	const isJsonl = extname(file) === '.jsonl';
+
+	const inputs = lines.flatMap((line, i) => {
+		const trimmed = line.trim();
+		if (!trimmed || (!isJsonl && trimmed.startsWith('#'))) {
+			return [];
+		}
+		return [isJsonl ? parseJsonLine(trimmed, field, `${file}:${i + 1}`) : trimmed];
+	});
+	if (inputs.length === 0) {
+		throw new Error(`The batch file ${file} has no inputs`);
+	}
+	return inputs;
+}
+
+function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+// Run every input with at most `concurrency` in flight, a failed input does not stop the others
+export async function runBatch<T>(
+	inputs: string[],
+	run: (input: string) => Promise<T>,
+	concurrency: number
+): Promise<BatchItem<T>[]> {
+	const items: BatchItem<T>[] = new Array<BatchItem<T>>(inputs.length);
+	let next = 0;
+	let done = 0;
+
+	const worker = async () => {
+		while (next < inputs.length) {
+			const index = next++;
+			const input = inputs[index];
+			const startedAt = Date.now();
+			try {
+				const result = await run(input);
+				items[index] = { index, input, ok: true, result, durationMs: Date.now() - startedAt };
+			} catch (error) {
+				items[index] = { index, input, ok: false, error: getErrorMessage(error), durationMs: Date.now() - startedAt };
+			}
+
+			const item = items[index];
+			const seconds = (item.durationMs / 1000).toFixed(1);
+			done++;
+			console.log(item.ok
+				? `✅ [${done}/${inputs.length}] ${input} (${seconds}s)`
+				: `❌ [${done}/${inputs.length}] ${input}: ${item.error}`);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, inputs.length) }, worker));
+	return items;
+}
+
+function formatYamlValue(value: string): string {
+	if (!value.includes('\n')) {
+		// JSON strings are valid YAML double-quoted scalars
+		return JSON.stringify(value);
+	}
+	return `|-\n${value.split('\n').map(line => (line ? `  ${line}` : '')).join('\n')}`;
+}
+
+// A Markdown document with YAML front matter
+export function formatFrontMatter(fields: Record<string, string>, body: string): string {
+	const lines = Object.entries(fields).map(([key, value]) => `${key}: ${formatYamlValue(value)}`);
+	return `---\n${lines.join('\n')}\n---\n\n${body}\n`;
+}
+
+function slugify(text: string): string {
+	const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+	return slug.slice(0, SLUG_LIMIT).replace(/-+$/, '') || 'item';
+}
+
+function escapeCell(text: string): string {
+	return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export interface BatchDocument {
+	// Shown in the index, e.g. the article title
+	title: string;
+	markdown: string;
+}
+
+// Save the documents and the index to a batch folder and print the summary, with the spend of the run
+export async function reportBatch<T>(
+	items: BatchItem<T>[],
+	renderDocument: (input: string, result: T) => BatchDocument,
+	spend: SpendSummary
+): Promise<void> {
+	const example = process.env.EXAMPLE_NAME ?? 'default';
+	// The batch started with the process
+	const startedAt = new Date(performance.timeOrigin);
+	const batchDir = join(
+		process.env.EXAMPLE_OUT_DIR ?? DEFAULT_OUT_DIR,
+		`${startedAt.toISOString().replace(/[:.]/g, '-')}-${example}-batch`
+	);
+	await fs.mkdir(batchDir, { recursive: true });
+
+	const digits = String(items.length).length;
+	const rows: string[] = [];
+	const entries: unknown[] = [];
+
+	for (const item of items) {
+		const number = String(item.index + 1).padStart(digits, '0');
+		if (item.ok) {
+			const document = renderDocument(item.input, item.result);
+			const file = `${number}-${slugify(item.input)}.md`;
+			await fs.writeFile(join(batchDir, file), document.markdown);
+			rows.push(`| ${item.index + 1} | ${escapeCell(item.input)} | [${escapeCell(document.title)}](${file}) | ✅ |`);
+			entries.push({ input: item.input, ok: true, file, durationMs: item.durationMs });
+		} else {
+			rows.push(`| ${item.index + 1} | ${escapeCell(item.input)} | | ❌ ${escapeCell(item.error)} |`);
+			entries.push({ input: item.input, ok: false, error: item.error, durationMs: item.durationMs });
+		}
+	}
+
+	const failed = items.filter(item => !item.ok).length;
+	const summary = `${items.length - failed} of ${items.length} succeeded`;
+
+	await fs.writeFile(join(batchDir, 'index.md'), [
+		`# ${example} batch`,
+		'',
+		`Started ${startedAt.toISOString()} from ${basename(process.env.EXAMPLE_BATCH ?? '')}, ${summary}.`,
+		'',
+		'| # | Input | Document | Status |',
+		'|---|---|---|---|',
+		...rows,
+		''
+	].join('\n'));
+	await fs.writeFile(join(batchDir, 'batch.json'), `${JSON.stringify({
+		example,
+		batchFile: process.env.EXAMPLE_BATCH,
+		startedAt: startedAt.toISOString(),
+		finishedAt: new Date().toISOString(),
+		items: entries,
+		spend
+	}, null, 2)}\n`);
+
+	console.log(`\n📦 Batch: ${summary}`);
+	for (const item of items) {
+		if (!item.ok) {
+			console.log(`   ❌ ${item.input}: ${item.error}`);
+		}
+	}
+	console.log(`📁 Batch saved to ${batchDir}`);
+
+	if (failed > 0) {
+		process.exitCode = 1;
+	}
+}
@@ -0,0 +1,180 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { join, relative } from 'path';
+import { stableStringify, writeJsonFile } from './model-replay';
+
+/**
+ * Step Checkpoints
+ *
+ * Saves the result of each step of a Script (researcher, outliner, ...) on disk, keyed by the
+ * run id, the step name and a hash of the step's arguments. When a run fails halfway, it can
+ * be resumed with its run id: the steps that already succeeded are answered from their
+ * checkpoints, so only the failed step and the ones after it call the models again.
+ *
+ * - `fromStep` re-runs that step and the steps listed after it in the `checkpointSteps`
+ *   object, even when they have checkpoints (their new results are saved)
+ * - Only successful steps are saved, a step that throws runs again on resume. Checkpoints are
+ *   renamed into place once written, one that can not be parsed anyway runs the step again
+ * - Generator results keep their `text` and `object`, other steps their JSON value. The
+ *   arguments are only kept as the hash in the file name, they can be whole pages
+ * - `keys` picks what identifies a call of a step instead of all of its arguments, for steps
+ *   whose arguments differ between runs, e.g. a page that is fetched again on resume
+ *
+ *   context: traceSteps({ ...checkpointSteps({ researcher, outliner, writer }), topic })
+ *   ...checkpointSteps({ companyInfoExtractor }, { companyInfoExtractor: ({ ticker }) => ticker })
+ *
+ * Usage - see setup.ts (EXAMPLE_RUN_ID, EXAMPLE_FROM_STEP, set by --resume and --from)
+ */
+
+export interface CheckpointOptions {
+	// Directory of the example's runs, with one folder per run id
+	dir: string;
+	runId: string;
+	// The run id comes from a previous run, whose checkpoints must exist
+	resume?: boolean;
+	fromStep?: string;
+}
+
+// What identifies a call of a step, by step name
+export type CheckpointKeys<T> = Partial<Record<keyof T, (...args: never[]) => unknown>>;
+
+export interface CheckpointStore {
+	runId: string;
+	// Names of the checkpointed steps, and how many calls were answered from a checkpoint so far
+	steps: string[];
+	reused: number;
+	// Wrap the functions of a Script context, in the order they run in
+	checkpointSteps<T extends Record<string, unknown>>(steps: T, keys?: CheckpointKeys<T>): T;
+}
+
+interface CheckpointFile {
+	createdAt: number;
+	step: string;
+	result: unknown;
+}
+
+export class UnknownCheckpointRunError extends Error {
+	constructor(public readonly runId: string, public readonly dir: string) {
+		super(`No checkpoints for run "${runId}" in ${dir}, the run id is printed when a run fails`);
+		this.name = 'UnknownCheckpointRunError';
+	}
+}
+
+export class UnknownCheckpointStepError extends Error {
+	constructor(public readonly step: string, public readonly knownSteps: string[]) {
+		super(`Unknown step "${step}" for --from, the steps of this example are: ${knownSteps.join(', ')}`);
+		this.name = 'UnknownCheckpointStepError';
+	}
+}
+
+// Timestamps sort in run order and are safe as folder names
+export function createRunId(): string {
+	return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+function hashArgs(args: unknown[]): string {
+	return createHash('sha256').update(stableStringify(args)).digest('hex').slice(0, 16);
+}
+
+// Generator results are class instances with the response, usage etc. - the scripts only read text and object
+function toStoredResult(result: unknown): unknown {
+	if (result !== null && typeof result === 'object' && ('text' in result || 'object' in result)) {
+		return {
+			...('text' in result ? { text: result.text } : {}),
+			...('object' in result ? { object: result.object } : {})
+		};
+	}
+	return result;
+}
+
+async function readCheckpoint(path: string): Promise<CheckpointFile | undefined> {
+	let content: string;
+	try {
+		content = await fs.readFile(path, 'utf-8');
+	} catch (error) {
+		if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+			return undefined;
+		}
+		throw error;
+	}
+
+	try {
+		return JSON.parse(content) as CheckpointFile;
+	} catch {
+		return undefined;
+	}
+}
+
+export function createCheckpointStore(options: CheckpointOptions): CheckpointStore {
+	const { runId, fromStep } = options;
+	const runDir = join(options.dir, runId);
+
+	if (options.resume && !existsSync(runDir)) {
+		throw new UnknownCheckpointRunError(runId, options.dir);
+	}
+
+	const checkpointStep = (
+		step: string,
+		fn: (...args: unknown[]) => unknown,
+		rerun: boolean,
+		key: ((...args: unknown[]) => unknown) | undefined
+	) => {
+		return async (...args: unknown[]) => {
+			const path = join(runDir, `${step}-${hashArgs(key ? [key(...args)] : args)}.json`);
+
+			if (!rerun) {
+				const checkpoint = await readCheckpoint(path);
+				if (checkpoint) {
+					store.reused++;
+					return checkpoint.result;
+				}
+			}
+
+			const result = await fn(...args);
+			const checkpoint: CheckpointFile = { createdAt: Date.now(), step, result: toStoredResult(result) };
+			await writeJsonFile(path, checkpoint);
+			return result;
+		};
+	};
+
+	const store: CheckpointStore = {
+		runId,
+		steps: [],
+		reused: 0,
+		checkpointSteps: <T extends Record<string, unknown>>(steps: T, keys: CheckpointKeys<T> = {}): T => {
+			const names = Object.keys(steps);
+			if (fromStep !== undefined && !names.includes(fromStep)) {
+				throw new UnknownCheckpointStepError(fromStep, names);
+			}
+			store.steps.push(...names.filter(name => !store.steps.includes(name)));
+			const rerunFrom = fromStep !== undefined ? names.indexOf(fromStep) : names.length;
+
+			return Object.fromEntries(Object.entries(steps).map(([name, step], index) => [
+				name,
+				typeof step === 'function'
+					? checkpointStep(
+						name,
+						step as (...args: unknown[]) => unknown,
+						index >= rerunFrom,
+						keys[name] as ((...args: unknown[]) => unknown) | undefined
+					)
+					: step
+			])) as T;
+		}
+	};
+	return store;
+}
+
+// How to pick a failed run (or batch) up again for examples with checkpointed steps, and how much a resumed run reused
+export function printResumeHintOnExit(store: CheckpointStore, example: string, batchFile?: string) {
+	process.once('exit', code => {
+		if (store.reused > 0) {
+			process.stdout.write(`\n♻️  Reused ${store.reused} step result(s) from run ${store.runId}\n`);
+		}
+		if (code !== 0 && store.steps.length > 0) {
+			const batch = batchFile !== undefined ? ` --batch ${relative(process.cwd(), batchFile)}` : '';
+			process.stderr.write(`\n💾 Resume by running it again with --resume ${store.runId}, e.g. npm run example -- ${example}${batch} --resume ${store.runId}\n`);
+		}
+	});
+}
@@ -0,0 +1,98 @@
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+
+/**
+ * Example Input
+ *
+ * Shared helpers the examples use to read their input, so another topic, inquiry or config
+ * can be tried without editing the tracked input files. scripts/run-example.mjs passes the
+ * CLI options on through environment variables:
+ *
+ *   npm run example -- 1 --input-text "The history of the bicycle"   (EXAMPLE_INPUT_TEXT)
+ *   npm run example -- 2 --input my-inquiry.txt                      (EXAMPLE_INPUT)
+ *   npm run example -- 3 --set numTopStocks=5 --set numMarkets=3     (EXAMPLE_SET, JSON)
+ *
+ * Without them, the example's own input file is used. The input that was read is kept for
+ * the run folder of --out (see example-output.ts).
+ */
+
+export interface UsedInput {
+	// File path, or --input-text
+	source: string;
+	text?: string;
+	// JSON input with the --set fields applied
+	data?: unknown;
+}
+
+let usedInput: UsedInput | undefined;
+
+export function getUsedInput(): UsedInput | undefined {
+	return usedInput;
+}
+
+function describe(file: URL | string): string {
+	return file instanceof URL ? fileURLToPath(file) : file;
+}
+
+async function readInputFile(defaultFile: URL | string): Promise<{ text: string; source: string }> {
+	const file = process.env.EXAMPLE_INPUT ?? defaultFile;
+	return { text: await fs.readFile(file, 'utf-8'), source: describe(file) };
+}
+
+// Text input: --input-text, else the --input file, else the example's default file
+export async function readInputText(defaultFile: URL | string): Promise<string> {
+	const { text, source } = process.env.EXAMPLE_INPUT_TEXT !== undefined
+		? { text: process.env.EXAMPLE_INPUT_TEXT, source: '--input-text' }
+		: await readInputFile(defaultFile);
+
+	const input = text.trim();
+	if (!input) {
+		throw new Error(`The input in ${source} is empty, pass --input <file> or --input-text "..."`);
+	}
+	usedInput = { source, text: input };
+	return input;
+}
+
+// Values of --set key=value are JSON when they parse as JSON (numbers, booleans, arrays), strings otherwise
+function parseSetValue(value: string): unknown {
+	try {
+		return JSON.parse(value);
+	} catch {
+		return value;
+	}
+}
+
+// Dotted keys set nested fields, e.g. --set limits.max=3
+function setField(target: Record<string, unknown>, key: string, value: unknown) {
+	const path = key.split('.');
+	let current = target;
+	for (const part of path.slice(0, -1)) {
+		const next = current[part];
+		if (next === null || typeof next !== 'object') {
+			current[part] = {};
+		}
+		current = current[part] as Record<string, unknown>;
+	}
+	current[path[path.length - 1]] = value;
+}
+
+// JSON input: the --input file (or --input-text) else the example's default file, with the --set fields applied
+export async function readInputJson<T>(defaultFile: URL | string): Promise<T> {
+	const { text, source } = process.env.EXAMPLE_INPUT_TEXT !== undefined
+		? { text: process.env.EXAMPLE_INPUT_TEXT, source: '--input-text' }
+		: await readInputFile(defaultFile);
+
+	let data: Record<string, unknown>;
+	try {
+		data = JSON.parse(text) as Record<string, unknown>;
+	} catch (error) {
+		throw new Error(`The input in ${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	const fields = JSON.parse(process.env.EXAMPLE_SET ?? '{}') as Record<string, string>;
+	for (const [key, value] of Object.entries(fields)) {
+		setField(data, key, parseSetValue(value));
+	}
+	usedInput = { source, data };
+	return data as T;
+}
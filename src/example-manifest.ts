@@ -0,0 +1,148 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, relative } from 'path';
+import { getApiKeyEnv, loadModelsConfig, resolveModelRoles } from './model-registry';
+
+/**
+ * Example Manifest
+ *
+ * Each example folder declares what it needs in an `example.json`, so scripts/run-example.mjs
+ * can list the examples and check before running one that nothing is missing, instead of the
+ * first model call failing deep inside a script:
+ *
+ *   {
+ *     "title": "Routing",
+ *     "description": "Classify a support inquiry and route it to a specialized handler",
+ *     "models": ["basic", "advanced"],
+ *     "env": [],
+ *     "inputs": ["input.txt"],
+ *     "networkTools": false
+ *   }
+ *
+ * - `models` are the model roles the example uses, their API keys (see models.json) are required,
+ *   unless the models are mocked (MOCK_MODELS=true) or replayed (CASSETTE_MODE=replay)
+ * - `env` lists any other required environment variables
+ * - `inputs` are files in the example folder, not required when --input or --input-text is passed
+ * - `networkTools` marks examples whose tools call web APIs, even with mocked or replayed models
+ */
+
+export const MANIFEST_FILE = 'example.json';
+
+export interface ExampleManifest {
+	title: string;
+	description: string;
+	models?: string[];
+	env?: string[];
+	inputs?: string[];
+	networkTools?: boolean;
+}
+
+export interface RequiredEnv {
+	name: string;
+	// Why it is needed, e.g. the model role
+	reason?: string;
+}
+
+export class ExampleRequirementsError extends Error {
+	constructor(public readonly example: string, public readonly missing: string[]) {
+		super([
+			`Cannot run ${example}, missing:`,
+			...missing.map(item => ` - ${item}`),
+			'Set API keys and other variables in .env, or run without API keys using MOCK_MODELS=true or CASSETTE_MODE=replay.'
+		].join('\n'));
+		this.name = 'ExampleRequirementsError';
+	}
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function validateManifest(value: unknown, path: string): ExampleManifest {
+	const manifest = value as Partial<ExampleManifest> | null;
+	const problems = [
+		typeof manifest?.title !== 'string' && '"title" must be a string',
+		typeof manifest?.description !== 'string' && '"description" must be a string',
+		manifest?.models !== undefined && !isStringArray(manifest.models) && '"models" must be an array of role names',
+		manifest?.env !== undefined && !isStringArray(manifest.env) && '"env" must be an array of variable names',
+		manifest?.inputs !== undefined && !isStringArray(manifest.inputs) && '"inputs" must be an array of file names',
+		manifest?.networkTools !== undefined && typeof manifest.networkTools !== 'boolean' && '"networkTools" must be a boolean'
+	].filter(problem => problem !== false);
+
+	if (problems.length > 0) {
+		throw new Error(`Invalid example manifest ${path}: ${problems.join(', ')}`);
+	}
+	return manifest as ExampleManifest;
+}
+
+// The manifest of an example folder, undefined for folders without one
+export function loadExampleManifest(dir: string): ExampleManifest | undefined {
+	const path = join(dir, MANIFEST_FILE);
+	let raw: string;
+	try {
+		raw = readFileSync(path, 'utf-8');
+	} catch (error) {
+		if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+			return undefined;
+		}
+		throw error;
+	}
+	return validateManifest(JSON.parse(raw), path);
+}
+
+// API keys of the example's model roles under the current models.json, then its other variables
+export function getRequiredEnv(manifest: ExampleManifest, env: NodeJS.ProcessEnv = process.env): RequiredEnv[] {
+	const required: RequiredEnv[] = [];
+
+	const modelsOffline = env.MOCK_MODELS === 'true' || env.CASSETTE_MODE === 'replay';
+	if (!modelsOffline && manifest.models?.length) {
+		const modelsConfig = loadModelsConfig(env.MODELS_CONFIG ?? 'models.json', env);
+		const roles = resolveModelRoles(modelsConfig);
+		// Unknown roles are reported by checkExample
+		for (const roleName of manifest.models.filter(name => name in roles)) {
+			const role = roles[roleName];
+			const keyEnv = getApiKeyEnv(role, modelsConfig.providers);
+			if (keyEnv) {
+				required.push({ name: keyEnv, reason: `API key of the "${roleName}" model, ${role.provider}:${role.modelId}` });
+			}
+		}
+	}
+
+	required.push(...(manifest.env ?? []).map(name => ({ name })));
+
+	// One entry per variable, with the first reason
+	return required.filter((item, index) => required.findIndex(other => other.name === item.name) === index);
+}
+
+// Everything the example needs but is missing, empty when it can run
+export function checkExample(manifest: ExampleManifest, dir: string, env: NodeJS.ProcessEnv = process.env): string[] {
+	const missing: string[] = [];
+
+	const modelsConfig = loadModelsConfig(env.MODELS_CONFIG ?? 'models.json', env);
+	for (const role of manifest.models ?? []) {
+		if (!(role in modelsConfig.roles)) {
+			missing.push(`model role "${role}" in models.json (configured roles: ${Object.keys(modelsConfig.roles).join(', ')})`);
+		}
+	}
+
+	for (const { name, reason } of getRequiredEnv(manifest, env)) {
+		if (!env[name]) {
+			missing.push(reason ? `${name} (${reason})` : name);
+		}
+	}
+
+	// --input replaces the input files, --input-text needs none (see example-input.ts)
+	if (env.EXAMPLE_INPUT !== undefined) {
+		if (!existsSync(env.EXAMPLE_INPUT)) {
+			missing.push(`input file ${env.EXAMPLE_INPUT} (--input)`);
+		}
+	} else if (env.EXAMPLE_INPUT_TEXT === undefined) {
+		for (const input of manifest.inputs ?? []) {
+			const path = join(dir, input);
+			if (!existsSync(path)) {
+				missing.push(`input file ${relative(process.cwd(), path)}`);
+			}
+		}
+	}
+
+	return missing;
+}
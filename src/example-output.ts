@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import { join } from 'path';
+import { costTracker, effectiveModelConfig } from './setup';
+import { getUsedInput } from './example-input';
+
+/**
+ * Example Output
+ *
+ * Prints the result of an example in the format picked with --format, and with --out saves
+ * the run to a timestamped folder, so runs can be archived and compared after prompt changes:
+ *
+ *   npm run example -- 1 --out runs --format md
+ *
+ *   runs/2026-10-18T09-12-44-021Z-1-prompt-chaining/
+ *     result.json   the result object
+ *     output.md     rendered output (output.txt for plain text renderings)
+ *     input.txt     the input that was used (input.json with the --set fields applied)
+ *     models.json   the effective model config: roles, mocks, cassette, cache, retries, limits
+ *     run.json      example, start and end time, duration, and the calls, tokens and cost per model
+ *
+ * Without --format an example prints its plain text rendering, or the result as JSON when
+ * it has none. scripts/run-example.mjs passes the options on as EXAMPLE_FORMAT and EXAMPLE_OUT_DIR.
+ */
+
+export type OutputFormat = 'json' | 'md' | 'text';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'md', 'text'];
+
+export interface RenderedOutput {
+	markdown?: string;
+	text?: string;
+}
+
+function getFormat(rendered: RenderedOutput): OutputFormat {
+	const format = process.env.EXAMPLE_FORMAT;
+	if (format === undefined) {
+		return rendered.text !== undefined ? 'text' : 'json';
+	}
+	if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+		throw new Error(`Invalid --format "${format}", expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+	}
+	return format as OutputFormat;
+}
+
+// The requested rendering, falling back to the other one and then to JSON
+function formatOutput(result: unknown, rendered: RenderedOutput, format: OutputFormat): string {
+	const json = JSON.stringify(result, null, 2);
+	switch (format) {
+		case 'json':
+			return json;
+		case 'md':
+			return rendered.markdown ?? rendered.text ?? json;
+		case 'text':
+			return rendered.text ?? rendered.markdown ?? json;
+	}
+}
+
+function getRunDirName(startedAt: Date): string {
+	const example = process.env.EXAMPLE_NAME ?? 'default';
+	return `${startedAt.toISOString().replace(/[:.]/g, '-')}-${example}`;
+}
+
+async function saveRun(outDir: string, result: unknown, rendered: RenderedOutput, startedAt: Date): Promise<string> {
+	const finishedAt = new Date();
+	const runDir = join(outDir, getRunDirName(startedAt));
+	await fs.mkdir(runDir, { recursive: true });
+
+	const writeJson = (name: string, value: unknown) => fs.writeFile(join(runDir, name), `${JSON.stringify(value, null, 2)}\n`);
+
+	await writeJson('result.json', result);
+	if (rendered.markdown !== undefined) {
+		await fs.writeFile(join(runDir, 'output.md'), `${rendered.markdown}\n`);
+	}
+	if (rendered.text !== undefined) {
+		await fs.writeFile(join(runDir, 'output.txt'), `${rendered.text}\n`);
+	}
+
+	const input = getUsedInput();
+	if (input?.data !== undefined) {
+		await writeJson('input.json', input.data);
+	} else if (input?.text !== undefined) {
+		await fs.writeFile(join(runDir, 'input.txt'), `${input.text}\n`);
+	}
+
+	await writeJson('models.json', effectiveModelConfig);
+	await writeJson('run.json', {
+		example: process.env.EXAMPLE_NAME,
+		inputSource: input?.source,
+		startedAt: startedAt.toISOString(),
+		finishedAt: finishedAt.toISOString(),
+		durationMs: finishedAt.getTime() - startedAt.getTime(),
+		spend: costTracker.getSummary()
+	});
+
+	return runDir;
+}
+
+// Print the result of the example, and save the run when --out is set
+export async function reportResult(result: unknown, rendered: RenderedOutput = {}): Promise<void> {
+	console.log(formatOutput(result, rendered, getFormat(rendered)));
+
+	const outDir = process.env.EXAMPLE_OUT_DIR;
+	if (outDir) {
+		// The run started with the process
+		const runDir = await saveRun(outDir, result, rendered, new Date(performance.timeOrigin));
+		console.log(`\n📁 Run saved to ${runDir}`);
+	}
+}
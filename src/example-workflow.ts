@@ -0,0 +1,37 @@
+import { LanguageModelV2 } from '@ai-sdk/provider';
+import { CheckpointKeys } from './example-checkpoints';
+
+/**
+ * Example Workflows
+ *
+ * Shared types of the workflow factories the examples export from their `workflow.ts`, so a
+ * workflow can be embedded in other code or tests with any models, e.g. for routing:
+ *
+ *   import { createSupportAgent } from './2-routing/workflow';
+ *
+ *   const supportAgent = createSupportAgent({ basic: openai('gpt-4.1-mini'), advanced: anthropic('claude-sonnet-4-5') });
+ *   const { category, response } = await supportAgent('I was charged twice this month');
+ *
+ * The workflows have no side effects on import. The `index.ts` next to them is the runnable
+ * entry point: it reads the input, creates the workflow with the models from setup.ts and
+ * reports the result.
+ */
+
+export interface ExampleModels {
+	// Fast and cheap, for simple steps
+	basic: LanguageModelV2;
+	// Stronger, for analysis and critique
+	advanced: LanguageModelV2;
+}
+
+export interface WorkflowOptions {
+	// Span tracing of the steps (see traceSteps and traceStep in setup.ts), no tracing by default
+	traceSteps?: <T extends Record<string, unknown>>(steps: T) => T;
+	traceStep?: <T>(name: string, step: T) => T;
+	// Step checkpoints for resuming a failed run (see checkpointSteps in setup.ts), none by default
+	checkpointSteps?: <T extends Record<string, unknown>>(steps: T, keys?: CheckpointKeys<T>) => T;
+	// The current time for prompts (see getCurrentTime in setup.ts), the clock by default
+	getCurrentTime?: () => Date;
+	// Models of other roles in models.json (see getModel in setup.ts), for workflows that pick roles from their config
+	getModel?: (role: string) => LanguageModelV2;
+}
@@ -0,0 +1,134 @@
+import { MockRule } from './model-mock';
+
+/**
+ * Canned replies for the examples when running with MOCK_MODELS=true (see setup.ts).
+ * Each rule matches a distinctive phrase of an example prompt or template.
+ * The replies are deterministic, the snapshot tests in test/ depend on them.
+ */
+
+const INQUIRY_KEYWORDS: [string, RegExp][] = [
+	['urgent', /outage|down|security|breach|critical|immediate/i],
+	['billing', /invoice|billing|payment|refund|subscription|charge/i],
+	['technical', /\bapi\b|integration|error|bug|sdk|endpoint/i]
+];
+
+// The categories of the handler files, listed in the classifier prompt as `- <category>: <description>`
+function getPromptCategories(prompt: string): string[] {
+	const list = prompt.split('Categories:').at(-1) ?? '';
+	return [...list.matchAll(/^- ([a-z][a-z0-9-]*):/gm)].map(match => match[1]);
+}
+
+// The first matching category wins, every other match lowers the confidence. Categories without
+// keywords match when the inquiry names them, no match falls back to general (or the first category)
+function classifyInquiry(prompt: string) {
+	const inquiry = prompt.split('INQUIRY:')[1]?.split('Categories:')[0] ?? prompt;
+	const categories = getPromptCategories(prompt);
+	const keywordCategories = INQUIRY_KEYWORDS.map(([name]) => name);
+	const matches = [
+		...INQUIRY_KEYWORDS
+			.filter(([name, pattern]) => categories.includes(name) && pattern.test(inquiry))
+			.map(([name]) => name),
+		...categories.filter(name => !keywordCategories.includes(name) && new RegExp(`\\b${name}\\b`, 'i').test(inquiry))
+	];
+	const [category = categories.includes('general') ? 'general' : categories[0], ...secondaryCategories] = matches;
+	return {
+		category,
+		confidence: Math.round((0.95 - 0.15 * secondaryCategories.length) * 100) / 100,
+		secondaryCategories,
+		rationale: `The inquiry mentions ${matches.length === 0 ? 'no specific issue' : `${category} keywords`}.`
+	};
+}
+
+export const exampleMockRules: MockRule[] = [
+	// 1-prompt-chaining
+	{
+		match: /List 5-7 key facts or insights about/,
+		reply: { text: '1. Adoption is growing quickly.\n2. Productivity gains vary by task.\n3. Code review remains essential.\n4. Security concerns need attention.\n5. Tooling keeps improving.' }
+	},
+	{
+		match: /Create a clear outline for an article/,
+		reply: { text: '1. Introduction\n2. Adoption and productivity\n3. Risks and review practices\n4. Outlook' }
+	},
+	{
+		match: /Write a complete, engaging article following this outline/,
+		reply: { text: 'This is a mock article that follows the outline section by section.' }
+	},
+	{
+		match: /Create a catchy, engaging title for this article/,
+		reply: { text: 'A Mock Title for a Mock Article' }
+	},
+
+	// 2-routing
+	{
+		match: /Classify this customer inquiry/,
+		reply: prompt => ({ object: classifyInquiry(prompt) })
+	},
+	{
+		match: /support response to this inquiry|response to this urgent inquiry/,
+		reply: { text: 'Thank you for reaching out. This is a mock support response.' }
+	},
+
+	// 3-parallelization
+	{
+		match: /Return only the array of market names/,
+		reply: { object: ['Defense', 'Semiconductors', 'Rare Earth Mining', 'Cybersecurity'] }
+	},
+	{
+		match: /publicly traded stocks \(NYSE\/NASDAQ\)/,
+		reply: { object: { stocks: [{ companyName: 'Mock Corp', ticker: 'MOCK' }, { companyName: 'Sample Inc', ticker: 'SMPL' }] } }
+	},
+	{
+		match: /Read this Yahoo Finance page/,
+		reply: { text: 'Mock Corp is a profitable company with growing revenue and low debt.' }
+	},
+	{
+		match: /Write a comprehensive investment analysis/,
+		reply: { text: 'Mock analysis: solid fundamentals, moderate growth, manageable risks.' }
+	},
+	{
+		// Different scores per stock, so the ranking has something to sort
+		match: /rate the stock on these 6 dimensions/,
+		reply: prompt => prompt.includes('(SMPL)')
+			? { object: { criteriaAlignment: 5, financialStrength: 4, growthPotential: 6, marketPosition: 5, contrarianScore: 3, riskLevel: 5 } }
+			: { object: { criteriaAlignment: 7, financialStrength: 6, growthPotential: 8, marketPosition: 5, contrarianScore: 4, riskLevel: 3 } }
+	},
+
+	// 4-reflection
+	{
+		// The first draft is below the quality threshold (8), its revision reaches it
+		match: /Critique this blog post/,
+		reply: prompt => prompt.includes('revised mock blog post')
+			? { object: { score: 8, suggestions: ['Add a concrete example.'] } }
+			: { object: { score: 6, suggestions: ['Add a concrete example.', 'Shorten the introduction.'] } }
+	},
+	{
+		match: /Rewrite the following blog post/,
+		reply: { text: 'This is a revised mock blog post.' }
+	},
+	{
+		match: /Write a short, engaging blog post about/,
+		reply: { text: 'This is a mock blog post.' }
+	},
+
+	// 5-tool - later steps first, the prompt grows with every tool result
+	{
+		match: /\[tool-result weatherFetchTool\]/,
+		reply: { text: 'Mock forecast: mild and partly cloudy.' }
+	},
+	{
+		match: /\[tool-result timeInterpreterTool\]/,
+		reply: { toolCall: { toolName: 'weatherFetchTool', input: { lat: 48.85, lon: 2.35, daysFromNow: 1 } } }
+	},
+	{
+		match: /\[tool-result geocodeTool\]/,
+		reply: { toolCall: { toolName: 'timeInterpreterTool', input: { timeString: 'tomorrow', utcOffset: '+1' } } }
+	},
+	{
+		match: /Parse this time reference/,
+		reply: { object: { daysFromNow: 1, interpretation: 'Tomorrow' } }
+	},
+	{
+		match: /You are a weather assistant/,
+		reply: { toolCall: { toolName: 'geocodeTool', input: { location: 'Paris' } } }
+	},
+];
@@ -0,0 +1,135 @@
+import { wrapLanguageModel } from 'ai';
+import {
+	LanguageModelV2,
+	LanguageModelV2StreamPart,
+	LanguageModelV2Usage
+} from '@ai-sdk/provider';
+import { DEFAULT_PRICES, PriceTable, estimateCost } from './model-costs';
+
+/**
+ * Model Budget Guard (Optional)
+ *
+ * Caps the total tokens and/or the estimated cost of a run. A budget is shared by all
+ * models wrapped with `withBudget`, every completed call adds its usage, and once a limit
+ * is reached new calls are refused with a `BudgetExceededError` instead of reaching the
+ * provider. Calls that are already in flight are allowed to finish.
+ *
+ * In Cascada scripts the refused call becomes an error value that can be handled with
+ * `is error`, so a workflow can stop early and keep what it has (see 4-reflection).
+ *
+ * Usage - see setup.ts (BUDGET_MAX_TOKENS, BUDGET_MAX_COST)
+ */
+
+export interface BudgetLimits {
+	maxTokens?: number;
+	// Estimated cost in USD, based on the price table
+	maxCost?: number;
+}
+
+export interface Budget {
+	readonly limits: BudgetLimits;
+	readonly spentTokens: number;
+	readonly spentCost: number;
+	add(modelId: string, usage: LanguageModelV2Usage | undefined): void;
+	// Throws a BudgetExceededError once a limit has been reached
+	check(modelId: string): void;
+}
+
+export class BudgetExceededError extends Error {
+	constructor(
+		public readonly limit: 'tokens' | 'cost',
+		public readonly maxValue: number,
+		public readonly spent: number,
+		public readonly modelId: string
+	) {
+		super(limit === 'tokens'
+			? `Token budget exceeded: ${spent} of ${maxValue} tokens used, refusing call to ${modelId}`
+			: `Cost budget exceeded: $${spent.toFixed(4)} of $${maxValue.toFixed(4)} spent, refusing call to ${modelId}`);
+		this.name = 'BudgetExceededError';
+	}
+}
+
+// The BudgetExceededError behind an error, also when a library passed it on as the cause of its own error
+export function findBudgetExceededError(error: unknown): BudgetExceededError | undefined {
+	for (let current = error; current instanceof Error; current = current.cause) {
+		if (current instanceof BudgetExceededError) {
+			return current;
+		}
+	}
+	return undefined;
+}
+
+function getTotalTokens(usage: LanguageModelV2Usage | undefined): number {
+	return usage?.totalTokens ?? (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0);
+}
+
+// Shared budget for all models of a run
+export function createBudget(limits: BudgetLimits, prices: PriceTable = DEFAULT_PRICES): Budget {
+	let spentTokens = 0;
+	let spentCost = 0;
+
+	return {
+		limits,
+		get spentTokens() {
+			return spentTokens;
+		},
+		get spentCost() {
+			return spentCost;
+		},
+
+		add(modelId, usage) {
+			spentTokens += getTotalTokens(usage);
+			// Models without a price do not count towards the cost limit
+			spentCost += estimateCost(modelId in prices ? prices[modelId] : undefined, usage) ?? 0;
+		},
+
+		check(modelId) {
+			if (limits.maxTokens !== undefined && spentTokens >= limits.maxTokens) {
+				throw new BudgetExceededError('tokens', limits.maxTokens, spentTokens, modelId);
+			}
+			if (limits.maxCost !== undefined && spentCost >= limits.maxCost) {
+				throw new BudgetExceededError('cost', limits.maxCost, spentCost, modelId);
+			}
+		}
+	};
+}
+
+// Budget wrapper
+export function withBudget(model: LanguageModelV2, budget: Budget | undefined) {
+	if (!budget) {
+		return model;
+	}
+
+	return wrapLanguageModel({
+		model,
+		middleware: {
+			wrapGenerate: async ({ doGenerate }) => {
+				budget.check(model.modelId);
+
+				const result = await doGenerate();
+				budget.add(model.modelId, result.usage);
+				return result;
+			},
+
+			wrapStream: async ({ doStream }) => {
+				budget.check(model.modelId);
+
+				const { stream, ...rest } = await doStream();
+
+				const usageTracker = new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+					transform(chunk, controller) {
+						if (chunk.type === 'finish') {
+							budget.add(model.modelId, chunk.usage);
+						}
+						controller.enqueue(chunk);
+					}
+				});
+
+				return {
+					stream: stream.pipeThrough(usageTracker),
+					...rest
+				};
+			}
+		}
+	});
+}
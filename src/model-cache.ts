@@ -0,0 +1,148 @@
+import fs from 'fs/promises';
+import { join } from 'path';
+import { wrapLanguageModel } from 'ai';
+import {
+	LanguageModelV2,
+	LanguageModelV2CallOptions
+} from '@ai-sdk/provider';
+import { getTraceEmitter } from './model-logging';
+import {
+	RecordedCall,
+	hashCallOptions,
+	recordGenerate,
+	recordStream,
+	replayGenerate,
+	replayStream,
+	writeJsonFile
+} from './model-replay';
+
+/**
+ * Model Response Cache (Optional)
+ *
+ * Stores model responses on disk, keyed by a hash of the model id and the call options
+ * (prompt, temperature, tools, response format, ...), and returns the stored response when
+ * the same call is made again. When iterating on one step of a chain, the unchanged
+ * upstream steps are served from the cache instead of being paid for again.
+ *
+ * - Entries expire after `ttlMs` (default: never)
+ * - Entries are written to a temporary file and renamed into place. An entry that can not be
+ *   parsed anyway is reported on stderr, treated as a miss and overwritten
+ * - A generator can opt out, or use its own TTL, through its providerOptions:
+ *   `providerOptions: { cache: { skip: true } }` or `providerOptions: { cache: { ttlMs: 60000 } }`
+ * - Cache hits are reported through the progress logging of the current call, so wrap
+ *   this inside `withProgressIndicator`
+ *
+ * Usage - see setup.ts (MODEL_CACHE, MODEL_CACHE_TTL_MS, --no-cache)
+ */
+
+export interface CacheOptions {
+	dir: string;
+	ttlMs?: number;
+}
+
+interface CacheFile {
+	createdAt: number;
+	call: RecordedCall;
+}
+
+interface CallCacheOptions {
+	skip: boolean;
+	ttlMs: number | undefined;
+}
+
+function getCallCacheOptions(params: LanguageModelV2CallOptions, defaultTtlMs: number | undefined): CallCacheOptions {
+	const options = params.providerOptions?.cache ?? {};
+	return {
+		skip: options.skip === true,
+		ttlMs: typeof options.ttlMs === 'number' ? options.ttlMs : defaultTtlMs
+	};
+}
+
+async function readEntry(path: string): Promise<CacheFile | undefined> {
+	let content: string;
+	try {
+		content = await fs.readFile(path, 'utf-8');
+	} catch (error) {
+		if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+			return undefined;
+		}
+		throw error;
+	}
+
+	try {
+		return JSON.parse(content) as CacheFile;
+	} catch (error) {
+		process.stderr.write(`⚠️  Ignoring corrupt cache entry ${path} (${error instanceof Error ? error.message : String(error)})\n`);
+		return undefined;
+	}
+}
+
+// Cache wrapper
+export function withCache(model: LanguageModelV2, options: CacheOptions | undefined) {
+	if (!options) {
+		return model;
+	}
+
+	const { dir } = options;
+
+	const lookup = async (key: string, { ttlMs }: CallCacheOptions) => {
+		const entry = await readEntry(join(dir, `${key}.json`));
+		if (!entry) {
+			return undefined;
+		}
+
+		const ageMs = Date.now() - entry.createdAt;
+		if (ttlMs !== undefined && ageMs > ttlMs) {
+			return undefined;
+		}
+
+		getTraceEmitter()?.({ type: 'cache-hit', key, ageMs });
+		return entry.call;
+	};
+
+	const store = async (key: string, call: RecordedCall) => {
+		const entry: CacheFile = { createdAt: Date.now(), call };
+		await writeJsonFile(join(dir, `${key}.json`), entry);
+	};
+
+	return wrapLanguageModel({
+		model,
+		middleware: {
+			wrapGenerate: async ({ doGenerate, params }) => {
+				const callOptions = getCallCacheOptions(params, options.ttlMs);
+				if (callOptions.skip) {
+					return doGenerate();
+				}
+
+				const key = hashCallOptions(model, params);
+				const cached = await lookup(key, callOptions);
+				if (cached) {
+					return replayGenerate(cached);
+				}
+
+				const result = await doGenerate();
+				await store(key, recordGenerate(model, result));
+				return result;
+			},
+
+			wrapStream: async ({ doStream, params }) => {
+				const callOptions = getCallCacheOptions(params, options.ttlMs);
+				if (callOptions.skip) {
+					return doStream();
+				}
+
+				const key = hashCallOptions(model, params);
+				const cached = await lookup(key, callOptions);
+				if (cached) {
+					return { stream: replayStream(cached) };
+				}
+
+				const { stream, ...rest } = await doStream();
+				return {
+					stream: recordStream(model, stream, recorded => store(key, recorded)),
+					...rest
+				};
+			}
+		}
+	});
+}
@@ -0,0 +1,173 @@
+import fs from 'fs/promises';
+import { wrapLanguageModel } from 'ai';
+import { LanguageModelV2 } from '@ai-sdk/provider';
+import {
+	RecordedCall,
+	hashCallOptions,
+	recordGenerate,
+	recordStream,
+	replayGenerate,
+	replayStream,
+	writeJsonFile
+} from './model-replay';
+
+/**
+ * Model Cassette Utility (Optional)
+ *
+ * Records model calls to a JSON "cassette" file on disk and replays them later without
+ * touching the network. Like `withProgressIndicator`, it wraps any LanguageModelV2 using
+ * the AI SDK's `wrapLanguageModel` middleware, so the examples run unchanged.
+ *
+ * Modes:
+ * - `record`: always call the model and store the result (overwrites existing entries)
+ * - `replay`: only serve stored results, a missing entry throws a CassetteMissError
+ * - `replay-or-record`: serve stored results, call the model and store the result on a miss
+ * - `passthrough`: the model is returned unwrapped
+ *
+ * Entries are keyed by a hash of the model id and the call options (prompt, tools, settings),
+ * so any change to a prompt or template produces a new entry. A stream call can be replayed
+ * from a recorded generate call and vice versa (see model-replay.ts).
+ *
+ * Prompts that embed the current time (e.g. the time interpreter in 5-tool) would produce a
+ * different key on every run, so the examples take their time from `getCurrentTime` in
+ * setup.ts, which is pinned to CASSETTE_TIME while recording or replaying.
+ *
+ * Usage - see setup.ts
+ */
+
+export type CassetteMode = 'record' | 'replay' | 'replay-or-record' | 'passthrough';
+
+export const CASSETTE_MODES: readonly CassetteMode[] = ['record', 'replay', 'replay-or-record', 'passthrough'];
+
+// The current time of recorded and replayed runs, unless CASSETTE_TIME is set
+export const DEFAULT_CASSETTE_TIME = '2026-01-01T12:00:00.000Z';
+
+interface CassetteFile {
+	version: 1;
+	entries: Record<string, RecordedCall>;
+}
+
+export class CorruptCassetteError extends Error {
+	constructor(public readonly cassettePath: string, reason: string) {
+		super(`Cassette ${cassettePath} is not valid JSON (${reason}), delete it and re-record with CASSETTE_MODE=record`);
+		this.name = 'CorruptCassetteError';
+	}
+}
+
+export class CassetteMissError extends Error {
+	constructor(public readonly key: string, public readonly cassettePath: string) {
+		super(`No cassette entry ${key} in ${cassettePath} (re-record with CASSETTE_MODE=replay-or-record)`);
+		this.name = 'CassetteMissError';
+	}
+}
+
+// Cassettes are shared by all models that point at the same file
+const cassettes = new Map<string, Cassette>();
+
+class Cassette {
+	// Loaded on first use, so a broken file fails the call that reads it
+	private data: Promise<CassetteFile> | undefined;
+	private saving: Promise<void> = Promise.resolve();
+
+	constructor(private readonly path: string) {}
+
+	private getData(): Promise<CassetteFile> {
+		this.data ??= Cassette.load(this.path);
+		return this.data;
+	}
+
+	private static async load(path: string): Promise<CassetteFile> {
+		let content: string;
+		try {
+			content = await fs.readFile(path, 'utf-8');
+		} catch (error) {
+			if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+				return { version: 1, entries: {} };
+			}
+			throw error;
+		}
+
+		try {
+			return JSON.parse(content) as CassetteFile;
+		} catch (error) {
+			throw new CorruptCassetteError(path, error instanceof Error ? error.message : String(error));
+		}
+	}
+
+	async get(key: string): Promise<RecordedCall | undefined> {
+		return (await this.getData()).entries[key];
+	}
+
+	async put(key: string, entry: RecordedCall): Promise<void> {
+		const data = await this.getData();
+		data.entries[key] = entry;
+
+		// Serialize writes so concurrent calls do not interleave, each replaces the file in one step
+		this.saving = this.saving.then(() => writeJsonFile(this.path, data));
+		await this.saving;
+	}
+}
+
+function getCassette(path: string): Cassette {
+	let cassette = cassettes.get(path);
+	if (!cassette) {
+		cassette = new Cassette(path);
+		cassettes.set(path, cassette);
+	}
+	return cassette;
+}
+
+// Cassette wrapper
+export function withCassette(
+	model: LanguageModelV2,
+	cassettePath: string,
+	mode: CassetteMode = 'passthrough'
+) {
+	if (mode === 'passthrough') {
+		return model;
+	}
+
+	const cassette = getCassette(cassettePath);
+	const canReplay = mode === 'replay' || mode === 'replay-or-record';
+
+	const lookup = async (key: string) => {
+		const entry = canReplay ? await cassette.get(key) : undefined;
+		if (!entry && mode === 'replay') {
+			throw new CassetteMissError(key, cassettePath);
+		}
+		return entry;
+	};
+
+	return wrapLanguageModel({
+		model,
+		middleware: {
+			wrapGenerate: async ({ doGenerate, params }) => {
+				const key = hashCallOptions(model, params);
+				const entry = await lookup(key);
+
+				if (entry) {
+					return replayGenerate(entry);
+				}
+
+				const result = await doGenerate();
+				await cassette.put(key, recordGenerate(model, result));
+				return result;
+			},
+
+			wrapStream: async ({ doStream, params }) => {
+				const key = hashCallOptions(model, params);
+				const entry = await lookup(key);
+
+				if (entry) {
+					return { stream: replayStream(entry) };
+				}
+
+				const { stream, ...rest } = await doStream();
+				return {
+					stream: recordStream(model, stream, recorded => cassette.put(key, recorded)),
+					...rest
+				};
+			}
+		}
+	});
+}
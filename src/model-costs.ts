@@ -0,0 +1,193 @@
+import { readFileSync } from 'fs';
+import { LanguageModelV2Usage } from '@ai-sdk/provider';
+import { TraceSink } from './trace-sinks';
+
+/**
+ * Model Cost Accounting (Optional)
+ *
+ * Adds up the token usage reported by `withProgressIndicator` and estimates the spend
+ * from a per-model price table. The tracker is a trace sink, so every model that shares
+ * it feeds the same accumulator. At the end of a run it prints a summary per model and
+ * for the whole run: calls, tokens, wall time and estimated dollars.
+ *
+ * Prices are in USD per 1M tokens, keyed by provider model id. The defaults below can be
+ * overridden or extended with a JSON file of the same shape (see MODEL_PRICES in setup.ts):
+ *
+ *   { "gpt-4.1-mini": { "input": 0.4, "output": 1.6, "cachedInput": 0.1 } }
+ *
+ * Usage - see setup.ts
+ */
+
+export interface ModelPrice {
+	input: number;
+	output: number;
+	// Price for input tokens served from the provider's prompt cache (defaults to input)
+	cachedInput?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+	'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+	'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+	'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+	'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+	'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+	'claude-haiku-4-5': { input: 1, output: 5, cachedInput: 0.1 },
+	'claude-sonnet-4-5': { input: 3, output: 15, cachedInput: 0.3 },
+	'claude-3-7-sonnet-latest': { input: 3, output: 15, cachedInput: 0.3 },
+	'claude-3-5-haiku-latest': { input: 0.8, output: 4, cachedInput: 0.08 },
+};
+
+// Defaults merged with the overrides from a JSON file, if the file exists
+export function loadPriceTable(path: string | undefined): PriceTable {
+	if (!path) {
+		return { ...DEFAULT_PRICES };
+	}
+
+	try {
+		return { ...DEFAULT_PRICES, ...(JSON.parse(readFileSync(path, 'utf-8')) as PriceTable) };
+	} catch (error) {
+		if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+			return { ...DEFAULT_PRICES };
+		}
+		throw error;
+	}
+}
+
+export function estimateCost(price: ModelPrice | undefined, usage: LanguageModelV2Usage | undefined): number | undefined {
+	if (!price) {
+		return undefined;
+	}
+
+	const inputTokens = usage?.inputTokens ?? 0;
+	const cachedInputTokens = usage?.cachedInputTokens ?? 0;
+	const outputTokens = usage?.outputTokens ?? 0;
+
+	return (
+		(inputTokens - cachedInputTokens) * price.input +
+		cachedInputTokens * (price.cachedInput ?? price.input) +
+		outputTokens * price.output
+	) / 1_000_000;
+}
+
+export interface ModelSpend {
+	model: string;
+	modelId: string;
+	calls: number;
+	// Calls served from the response cache, not included in tokens and cost
+	cacheHits: number;
+	inputTokens: number;
+	cachedInputTokens: number;
+	outputTokens: number;
+	// Sum of the call durations (overlaps for parallel calls)
+	durationMs: number;
+	// Undefined when the model has no price
+	cost: number | undefined;
+}
+
+export interface SpendSummary {
+	models: ModelSpend[];
+	total: Omit<ModelSpend, 'model' | 'modelId'>;
+	wallTimeMs: number;
+}
+
+export interface CostTracker extends TraceSink {
+	getSummary(): SpendSummary;
+	formatSummary(): string;
+}
+
+function formatCost(cost: number | undefined): string {
+	return cost === undefined ? 'n/a' : `$${cost.toFixed(4)}`;
+}
+
+function formatRow(label: string, spend: Omit<ModelSpend, 'model' | 'modelId'>): string {
+	const cached = spend.cachedInputTokens > 0 ? ` (${spend.cachedInputTokens} cached)` : '';
+	const hits = spend.cacheHits > 0 ? ` (${spend.cacheHits} from cache)` : '';
+	return `${label}: ${spend.calls} calls${hits} | ${spend.inputTokens}→${spend.outputTokens} tokens${cached} | ${(spend.durationMs / 1000).toFixed(2)}s | ${formatCost(spend.cost)}`;
+}
+
+// Shared accumulator, pass it as a trace sink to every wrapped model
+export function createCostTracker(prices: PriceTable = DEFAULT_PRICES): CostTracker {
+	const startTime = Date.now();
+	const spendByModel = new Map<string, ModelSpend>();
+
+	const getSummary = (): SpendSummary => {
+		const models = Array.from(spendByModel.values(), spend => ({ ...spend }));
+		const total = models.reduce<SpendSummary['total']>((sum, spend) => ({
+			calls: sum.calls + spend.calls,
+			cacheHits: sum.cacheHits + spend.cacheHits,
+			inputTokens: sum.inputTokens + spend.inputTokens,
+			cachedInputTokens: sum.cachedInputTokens + spend.cachedInputTokens,
+			outputTokens: sum.outputTokens + spend.outputTokens,
+			durationMs: sum.durationMs + spend.durationMs,
+			// Unpriced models are left out of the total
+			cost: spend.cost === undefined ? sum.cost : (sum.cost ?? 0) + spend.cost
+		}), { calls: 0, cacheHits: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, durationMs: 0, cost: undefined });
+
+		return { models, total, wallTimeMs: Date.now() - startTime };
+	};
+
+	return {
+		write(event) {
+			if (event.type !== 'complete') {
+				return;
+			}
+
+			// Calls served by a fallback model are accounted separately
+			const key = `${event.model}|${event.modelId}`;
+			let spend = spendByModel.get(key);
+			if (!spend) {
+				spend = {
+					model: event.model,
+					modelId: event.modelId,
+					calls: 0,
+					cacheHits: 0,
+					inputTokens: 0,
+					cachedInputTokens: 0,
+					outputTokens: 0,
+					durationMs: 0,
+					cost: event.modelId in prices ? 0 : undefined
+				};
+				spendByModel.set(key, spend);
+			}
+
+			spend.calls++;
+			if (event.cached) {
+				spend.cacheHits++;
+				return;
+			}
+
+			spend.inputTokens += event.usage?.inputTokens ?? 0;
+			spend.cachedInputTokens += event.usage?.cachedInputTokens ?? 0;
+			spend.outputTokens += event.usage?.outputTokens ?? 0;
+			spend.durationMs += event.durationMs;
+
+			const cost = estimateCost(event.modelId in prices ? prices[event.modelId] : undefined, event.usage);
+			if (cost !== undefined && spend.cost !== undefined) {
+				spend.cost += cost;
+			}
+		},
+
+		getSummary,
+
+		formatSummary() {
+			const summary = getSummary();
+			const lines = [
+				'💰 Spend summary',
+				...summary.models.map(spend => `   ${formatRow(`${spend.model} (${spend.modelId})`, spend)}`),
+				`   ${formatRow('Total', summary.total)} | wall time: ${(summary.wallTimeMs / 1000).toFixed(2)}s`
+			];
+			return lines.join('\n');
+		}
+	};
+}
+
+// Print the summary once the example has finished
+export function printSummaryOnExit(tracker: CostTracker) {
+	process.once('exit', () => {
+		if (tracker.getSummary().total.calls > 0) {
+			process.stdout.write(`\n${tracker.formatSummary()}\n`);
+		}
+	});
+}
@@ -1,10 +1,18 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { wrapLanguageModel } from 'ai';
 import {
 	LanguageModelV2,
-	LanguageModelV2CallOptions,
-	LanguageModelV2StreamPart,
-	LanguageModelV2Usage
+	LanguageModelV2Prompt,
+	LanguageModelV2StreamPart
 } from '@ai-sdk/provider';
+import {
+	CallMode,
+	TraceEvent,
+	TraceEventFields,
+	TraceSink,
+	consoleSink
+} from './trace-sinks';
+import { Redactor, defaultRedactor } from './trace-redaction';
 
 /**
  * Model Logging Utility (Optional)
@@ -17,6 +25,11 @@ import {
  * - Logs generation and streaming calls with timing, token usage, and active call counts
  * - Displays prompt previews, tool calls with arguments, and tool results
  * - Tracks reasoning steps for models that support it (e.g., o1 models)
+ * - Reports structured events to pluggable sinks (console, JSONL file, memory) - see trace-sinks.ts
+ * - Lets inner middleware (e.g. retries, fallbacks, cache hits) report into the current call via `getTraceEmitter`
+ * - Times tool executions (`withToolTiming`) and reports them into the model call that requested the tool,
+ *   within the tool loop of a generator run with `withToolCallScope`
+ * - Redacts secrets and personal data from every event before it reaches a sink - see trace-redaction.ts
  * - Completely optional - can be disabled by passing `showProgress: false`
  *
  * Usage - see setup.ts
@@ -24,9 +37,6 @@ import {
  * while preserving the original model's behavior and return values.
  */
 
-const PREVIEW_LIMIT = 40;
-const TOOL_RESULT_PREVIEW_LIMIT = 100;
-
 // Helper function to extract and format tool arguments
 function getToolArguments(part: { type: string; [key: string]: unknown }): string {
 	try {
@@ -46,179 +56,105 @@ function getToolArguments(part: { type: string; [key: string]: unknown }): strin
 	}
 }
 
-// Helper function to format tool results
-function formatToolResult(result: unknown): string {
-	try {
-		const resultStr = typeof result === 'string'
-			? result
-			: JSON.stringify(result);
-		return resultStr.length > TOOL_RESULT_PREVIEW_LIMIT
-			? resultStr.substring(0, TOOL_RESULT_PREVIEW_LIMIT) + '...'
-			: resultStr;
-	} catch {
-		return '[stringify error]';
-	}
+function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
 }
 
-// Helper function for completion logging
-function logCompletion(
-	modelName: string,
-	callId: number,
-	startTime: number,
-	usage: LanguageModelV2Usage | undefined,
-	mode: 'generating' | 'streaming',
-	activeCalls: number,
-	text: string | undefined,
-	finishReason?: string
-) {
-	const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-
-	// Show input/output tokens for better visibility
-	const inputTokens = usage?.inputTokens ?? 0;
-	const outputTokens = usage?.outputTokens ?? 0;
-
-	const tokenInfo = inputTokens > 0
-		? `${inputTokens}→${outputTokens} tokens`
-		: `${outputTokens} tokens`;
-
-	let resultSuffix = '';
-	if (text) {
-		const preview = text.trim().replace(/\s+/g, ' ');
-		const truncated =
-			preview.length > PREVIEW_LIMIT ? `${preview.slice(0, PREVIEW_LIMIT)}...` : preview;
-		resultSuffix = ` | result: "${truncated.replace(/"/g, '\\"')}"`;
-	}
-
-	const finishInfo = finishReason ? ` | reason: ${finishReason}` : '';
+export type TraceEmitter = (fields: TraceEventFields) => void;
 
-	process.stdout.write(
-		`[${modelName} #${callId}] ✅ Complete ${mode}: ${tokenInfo} in ${duration}s | active: ${activeCalls}${finishInfo}${resultSuffix}\n`
-	);
+interface PendingToolCall {
+	emit: TraceEmitter;
+	step: number;
 }
 
-interface PromptPreview {
-	text: string;
-	truncated: boolean;
-}
-
-function getPromptPreview(params: LanguageModelV2CallOptions | undefined): PromptPreview | undefined {
-	if (!params) {
-		return undefined;
-	}
-
-	const prompt = params.prompt;
-	if (!Array.isArray(prompt)) {
-		return undefined;
-	}
-
-	let preview = '';
-	let truncated = false;
-
-	const appendText = (text: string) => {
-		if (preview.length >= PREVIEW_LIMIT) {
-			truncated = true;
-			return;
-		}
-
-		const sanitized = text.replace(/\s+/g, ' ').trim();
-		if (!sanitized) {
-			return;
-		}
-
-		const segment = preview.length > 0 ? ` ${sanitized}` : sanitized;
-		if (!segment) {
-			return;
-		}
-
-		const remaining = PREVIEW_LIMIT - preview.length;
-		if (segment.length > remaining) {
-			truncated = true;
-		}
+// Tool calls of the current tool loop waiting to be executed (see withToolCallScope), so withToolTiming can
+// report into the model call that requested them. Tool call ids are only unique within a loop
+const toolCallScope = new AsyncLocalStorage<Map<string, PendingToolCall>>();
 
-		preview += segment.slice(0, remaining);
-	};
-
-	for (const message of prompt) {
-		if (preview.length >= PREVIEW_LIMIT) {
-			truncated = true;
-			break;
-		}
-
-		if (message.role === 'system') {
-			appendText(message.content);
-			continue;
-		}
+// 1-based step of the multi-step tool loop: each earlier step added an assistant message to the prompt
+function getLoopStep(prompt: LanguageModelV2Prompt): number {
+	return prompt.filter(message => message.role === 'assistant').length + 1;
+}
 
-		if (!Array.isArray(message.content)) {
-			continue;
-		}
+// Sinks that threw, each is reported once
+const failedSinks = new WeakSet<TraceSink>();
 
-		for (const part of message.content) {
-			if (preview.length >= PREVIEW_LIMIT) {
-				truncated = true;
-				break;
-			}
-
-			if (part.type === 'text') {
-				appendText(part.text);
-			}
-
-			if (preview.length >= PREVIEW_LIMIT) {
-				truncated = true;
-				break;
-			}
+// A failing sink (e.g. a full disk) must not fail the model call it reports on
+function writeToSink(sink: TraceSink, event: TraceEvent) {
+	try {
+		sink.write(event);
+	} catch (error) {
+		if (!failedSinks.has(sink)) {
+			failedSinks.add(sink);
+			process.stderr.write(`⚠️  Trace sink failed, its later errors are not shown: ${getErrorMessage(error)}\n`);
 		}
 	}
-
-	if (!preview) {
-		return undefined;
-	}
-
-	return {
-		text: preview,
-		truncated
-	};
 }
 
-function formatPromptSuffix(preview: PromptPreview | undefined) {
-	if (!preview) {
-		return '';
-	}
-
-	const escaped = preview.text.replace(/"/g, '\\"');
-	const display = preview.truncated ? `${escaped}...` : escaped;
+// The emitter of the call in progress, visible to the middleware wrapped inside withProgressIndicator
+const traceContext = new AsyncLocalStorage<TraceEmitter>();
 
-	return ` | prompt: "${display}"`;
+export function getTraceEmitter(): TraceEmitter | undefined {
+	return traceContext.getStore();
 }
 
 // Progress indicator wrapper
 export function withProgressIndicator(
 	model: LanguageModelV2,
 	modelName: string,
-	showProgress = true
+	showProgress = true,
+	sinks: TraceSink[] = [consoleSink],
+	redact: Redactor = defaultRedactor
 ) {
-	if (!showProgress) {
+	if (!showProgress || sinks.length === 0) {
 		return model;
 	}
 
 	let callCounter = 0;
 	let activeCalls = 0;
 
+	const createEmitter = (callId: number, mode: CallMode): TraceEmitter => {
+		// After a fallback the rest of the call is served (and priced) by another model
+		let modelId = model.modelId;
+		let cached = false;
+		const pendingToolCalls = toolCallScope.getStore();
+
+		const emit: TraceEmitter = fields => {
+			if (fields.type === 'fallback') {
+				modelId = fields.toModelId;
+			} else if (fields.type === 'cache-hit') {
+				cached = true;
+			} else if (fields.type === 'tool-call' && fields.toolCallId) {
+				pendingToolCalls?.set(fields.toolCallId, { emit, step: fields.step });
+			}
+			const event: TraceEvent = {
+				model: modelName,
+				modelId,
+				callId,
+				mode,
+				timestamp: Date.now(),
+				...redact(fields),
+				...(fields.type === 'complete' && cached ? { cached } : {})
+			};
+			sinks.forEach(sink => { writeToSink(sink, event); });
+		};
+		return emit;
+	};
+
 	return wrapLanguageModel({
 		model,
 		middleware: {
 			wrapGenerate: async ({ doGenerate, params }) => {
 				const callId = ++callCounter;
 				const startTime = Date.now();
-				const promptSuffix = formatPromptSuffix(getPromptPreview(params));
+				const emit = createEmitter(callId, 'generating');
+				const step = getLoopStep(params.prompt);
 
 				activeCalls++;
-				process.stdout.write(
-					`[${modelName} #${callId}] 🚩 Start generating${promptSuffix} | active: ${activeCalls}\n`
-				);
+				emit({ type: 'start', activeCalls, prompt: params.prompt });
 
 				try {
-					const result = await doGenerate();
+					const result = await traceContext.run(emit, doGenerate);
 					activeCalls--;
 
 					const textParts: string[] = [];
@@ -237,36 +173,43 @@ export function withProgressIndicator(
 							}
 
 							// Log tool call with arguments using helper
-							const argsStr = getToolArguments(part);
-							process.stdout.write(
-								`[${modelName} #${callId}] 🔧 ${part.toolName}(${argsStr})\n`
-							);
+							emit({
+								type: 'tool-call',
+								toolName: part.toolName,
+								toolCallId,
+								input: getToolArguments(part),
+								step
+							});
 						} else if (part.type === 'tool-result') {
 							const toolName = part.toolCallId ? toolCallMap.get(part.toolCallId) ?? 'unknown' : 'unknown';
-
-							// Log tool result with different emoji
-							const resultStr = formatToolResult(part.result);
-							process.stdout.write(
-								`[${modelName} #${callId}] 📥 ${toolName} → ${resultStr}\n`
-							);
+							emit({
+								type: 'tool-result',
+								toolName,
+								toolCallId: part.toolCallId,
+								result: part.result
+							});
 						}
 					});
 
-					const text = textParts.join(', ');
-
-					logCompletion(
-						modelName,
-						callId,
-						startTime,
-						result.usage,
-						'generating',
+					emit({
+						type: 'complete',
+						durationMs: Date.now() - startTime,
 						activeCalls,
-						text
-					);
+						usage: result.usage,
+						finishReason: result.finishReason,
+						text: textParts.join(', ')
+					});
 
 					return result;
 				} catch (error) {
 					activeCalls--;
+					emit({
+						type: 'error',
+						phase: 'call',
+						message: getErrorMessage(error),
+						durationMs: Date.now() - startTime,
+						activeCalls
+					});
 					throw error;
 				}
 			},
@@ -274,18 +217,24 @@ export function withProgressIndicator(
 			wrapStream: async ({ doStream, params }) => {
 				const callId = ++callCounter;
 				const startTime = Date.now();
-				const promptSuffix = formatPromptSuffix(getPromptPreview(params));
+				const emit = createEmitter(callId, 'streaming');
+				const step = getLoopStep(params.prompt);
 
 				activeCalls++;
-				process.stdout.write(
-					`[${modelName} #${callId}] 🚩 Start streaming${promptSuffix} | active: ${activeCalls}\n`
-				);
+				emit({ type: 'start', activeCalls, prompt: params.prompt });
 
 				let streamResult;
 				try {
-					streamResult = await doStream();
+					streamResult = await traceContext.run(emit, doStream);
 				} catch (error) {
 					activeCalls--;
+					emit({
+						type: 'error',
+						phase: 'call',
+						message: getErrorMessage(error),
+						durationMs: Date.now() - startTime,
+						activeCalls
+					});
 					throw error;
 				}
 
@@ -296,30 +245,23 @@ export function withProgressIndicator(
 				const toolInputs = new Map<string, string>();
 				const toolCallIds = new Map<string, string>();
 				const loggedToolCalls = new Set<string>();
+				const calledTools = new Set<string>();
 				let streamFinished = false;
-				let finishReason: string | undefined;
 
 				const transformStream = new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
 					transform(chunk: LanguageModelV2StreamPart, controller) {
 						try {
 							if (chunk.type === 'text-delta') {
 								fullText += chunk.delta;
+								emit({ type: 'delta', chars: chunk.delta.length });
 							} else if (chunk.type === 'reasoning-start') {
 								// Log reasoning start for o1 models
-								process.stdout.write(
-									`[${modelName} #${callId}] 🧠 Reasoning...\n`
-								);
+								emit({ type: 'reasoning', phase: 'start', text: '' });
 							} else if (chunk.type === 'reasoning-delta') {
 								reasoningText += chunk.delta;
+								emit({ type: 'delta', chars: chunk.delta.length });
 							} else if (chunk.type === 'reasoning-end') {
-								// Show brief reasoning summary
-								const preview = reasoningText.trim().replace(/\s+/g, ' ');
-								const truncated = preview.length > PREVIEW_LIMIT
-									? `${preview.slice(0, PREVIEW_LIMIT)}...`
-									: preview;
-								process.stdout.write(
-									`[${modelName} #${callId}] 🧠 Reasoning complete: "${truncated}"\n`
-								);
+								emit({ type: 'reasoning', phase: 'end', text: reasoningText });
 							} else if (chunk.type === 'tool-call') {
 								// Store tool call ID for matching with results
 								const toolCallId = chunk.toolCallId;
@@ -330,12 +272,16 @@ export function withProgressIndicator(
 								const callKey = toolCallId ? `${chunk.toolName}-${toolCallId}` : `${chunk.toolName}-default`;
 								if (!loggedToolCalls.has(callKey)) {
 									loggedToolCalls.add(callKey);
+									calledTools.add(chunk.toolName);
 
 									// Log tool call with arguments using helper
-									const argsStr = getToolArguments(chunk);
-									process.stdout.write(
-										`[${modelName} #${callId}] 🔧 ${chunk.toolName}(${argsStr})\n`
-									);
+									emit({
+										type: 'tool-call',
+										toolName: chunk.toolName,
+										toolCallId,
+										input: getToolArguments(chunk),
+										step
+									});
 								}
 							} else if (chunk.type === 'tool-input-start') {
 								toolCallIds.set(chunk.id, chunk.toolName);
@@ -343,50 +289,49 @@ export function withProgressIndicator(
 							} else if (chunk.type === 'tool-input-delta') {
 								const currentInput = toolInputs.get(chunk.id) ?? '';
 								toolInputs.set(chunk.id, currentInput + chunk.delta);
+								emit({ type: 'delta', chars: chunk.delta.length });
 							} else if (chunk.type === 'tool-input-end') {
 								const toolName = toolCallIds.get(chunk.id);
 								if (toolName) {
 									const callKey = `${toolName}-${chunk.id}`;
 									if (!loggedToolCalls.has(callKey)) {
 										loggedToolCalls.add(callKey);
-										const input = toolInputs.get(chunk.id);
-										process.stdout.write(
-											`[${modelName} #${callId}] 🔧 ${toolName}(${input ?? ''})\n`
-										);
+										calledTools.add(toolName);
+										emit({
+											type: 'tool-call',
+											toolName,
+											toolCallId: chunk.id,
+											input: toolInputs.get(chunk.id) ?? '',
+											step
+										});
 									}
 									// Clean up input but keep toolCallIds for matching results
 									toolInputs.delete(chunk.id);
 								}
 							} else if (chunk.type === 'tool-result') {
-								const toolName = toolCallIds.get(chunk.toolCallId) ?? 'unknown';
-
-								// Log tool result with different emoji
-								const resultStr = formatToolResult(chunk.result);
-								process.stdout.write(
-									`[${modelName} #${callId}] 📥 ${toolName} → ${resultStr}\n`
-								);
+								emit({
+									type: 'tool-result',
+									toolName: toolCallIds.get(chunk.toolCallId) ?? 'unknown',
+									toolCallId: chunk.toolCallId,
+									result: chunk.result
+								});
 							} else if (chunk.type === 'error') {
 								// Log errors from the model
-								const errorMsg = 'error' in chunk ? String(chunk.error) : 'unknown error';
-								process.stdout.write(
-									`[${modelName} #${callId}] ❌ Model error: ${errorMsg}\n`
-								);
+								emit({
+									type: 'error',
+									phase: 'stream',
+									message: String(chunk.error),
+									durationMs: Date.now() - startTime,
+									activeCalls
+								});
 							}
 
 							controller.enqueue(chunk);
 
 							if (chunk.type === 'finish') {
 								streamFinished = true;
-								finishReason = chunk.finishReason;
-
-								// Build tool list from loggedToolCalls
-								const uniqueTools = new Set<string>();
-								loggedToolCalls.forEach(key => {
-									const toolName = key.split('-')[0];
-									uniqueTools.add(toolName);
-								});
 
-								const toolLog = Array.from(uniqueTools)
+								const toolLog = Array.from(calledTools)
 									.map(name => `tool:${name}`)
 									.join(', ');
 
@@ -397,28 +342,31 @@ export function withProgressIndicator(
 									logText = toolLog;
 								}
 
-								logCompletion(
-									modelName,
-									callId,
-									startTime,
-									chunk.usage,
-									'streaming',
-									activeCalls - 1, // Show correct count after decrement
-									logText,
-									finishReason
-								);
+								emit({
+									type: 'complete',
+									durationMs: Date.now() - startTime,
+									activeCalls: activeCalls - 1, // Show correct count after decrement
+									usage: chunk.usage,
+									finishReason: chunk.finishReason,
+									text: logText
+								});
 
 								// Cleanup maps
 								toolInputs.clear();
 								toolCallIds.clear();
 								loggedToolCalls.clear();
+								calledTools.clear();
 							}
 						} catch (error) {
 							// Log unexpected errors during chunk processing
-							const errorMsg = error instanceof Error ? error.message : 'unknown';
-							process.stdout.write(
-								`[${modelName} #${callId}] ⚠️  Error processing chunk (${chunk.type}): ${errorMsg}\n`
-							);
+							emit({
+								type: 'error',
+								phase: 'chunk',
+								chunkType: chunk.type,
+								message: error instanceof Error ? error.message : 'unknown',
+								durationMs: Date.now() - startTime,
+								activeCalls
+							});
 							// Re-throw to ensure stream error handling works
 							throw error;
 						}
@@ -426,20 +374,22 @@ export function withProgressIndicator(
 
 					flush() {
 						// Ensure activeCalls is decremented if stream ends without finish
+						activeCalls--;
 						if (!streamFinished) {
-							activeCalls--;
-							process.stdout.write(
-								`[${modelName} #${callId}] ⚠️  Stream ended without finish chunk | active: ${activeCalls}\n`
-							);
-						} else {
-							// Normal finish already decremented
-							activeCalls--;
+							emit({
+								type: 'error',
+								phase: 'incomplete',
+								message: 'Stream ended without finish chunk',
+								durationMs: Date.now() - startTime,
+								activeCalls
+							});
 						}
 
 						// Cleanup on stream end
 						toolInputs.clear();
 						toolCallIds.clear();
 						loggedToolCalls.clear();
+						calledTools.clear();
 					}
 				});
 
@@ -451,3 +401,69 @@ export function withProgressIndicator(
 		}
 	});
 }
+
+type ToolExecute = (input: unknown, options?: { toolCallId?: string }) => unknown;
+
+function hasExecute(value: unknown): value is { execute: ToolExecute } {
+	return (typeof value === 'object' || typeof value === 'function') &&
+		value !== null &&
+		'execute' in value &&
+		typeof value.execute === 'function';
+}
+
+// Run a generator's tool loop with its own tool calls, which are dropped when the generator is done.
+// The model calls and tool executions of parallel runs can not be mixed up this way
+export function withToolCallScope<F extends (...args: never[]) => unknown>(generator: F): F {
+	const scoped = function (this: unknown, ...args: Parameters<F>) {
+		return toolCallScope.run(new Map(), () => generator.apply(this, args));
+	};
+	// Keep properties the caller may rely on (e.g. generator config)
+	return Object.assign(scoped, generator) as F;
+}
+
+// Time each tool execution and report its result or error into the model call that requested it,
+// for generators run with withToolCallScope
+export function withToolTiming<T extends Record<string, unknown>>(tools: T): T {
+	return Object.fromEntries(Object.entries(tools).map(([name, tool]) => {
+		if (!hasExecute(tool)) {
+			return [name, tool];
+		}
+
+		const execute = tool.execute;
+		const timedExecute: ToolExecute = async function (this: unknown, input, options) {
+			const toolCallId = options?.toolCallId;
+			const pendingToolCalls = toolCallScope.getStore();
+			const pending = toolCallId ? pendingToolCalls?.get(toolCallId) : undefined;
+			if (toolCallId) {
+				pendingToolCalls?.delete(toolCallId);
+			}
+
+			const startTime = Date.now();
+			const report = (outcome: { result: unknown } | { error: string }) => {
+				if (pending && toolCallId) {
+					pending.emit({
+						type: 'tool-execution',
+						toolName: name,
+						toolCallId,
+						step: pending.step,
+						startTime,
+						durationMs: Date.now() - startTime,
+						...outcome
+					});
+				}
+			};
+
+			try {
+				const result: unknown = await execute.call(this, input, options);
+				report({ result });
+				return result;
+			} catch (error) {
+				report({ error: getErrorMessage(error) });
+				throw error;
+			}
+		};
+
+		const timedTool = Object.assign(Object.create(Object.getPrototypeOf(tool) as object) as object, tool);
+		return [name, Object.assign(timedTool, { execute: timedExecute })];
+	})) as T;
+}
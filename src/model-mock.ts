@@ -0,0 +1,226 @@
+import {
+	LanguageModelV2,
+	LanguageModelV2CallOptions,
+	LanguageModelV2Content,
+	LanguageModelV2FinishReason,
+	LanguageModelV2StreamPart,
+	LanguageModelV2Usage
+} from '@ai-sdk/provider';
+
+/**
+ * Mock Model Provider (Optional)
+ *
+ * A local LanguageModelV2 that answers from a list of rules instead of calling a provider,
+ * so the examples can run without API keys or network access (see MOCK_MODELS in setup.ts).
+ *
+ * Each rule maps a regular expression on the prompt to a reply:
+ * - `{ text }`: a plain text answer (TextGenerator)
+ * - `{ object }`: a JSON object or array (ObjectGenerator with output 'object' / 'array')
+ * - `{ enum }`: an enum value (ObjectGenerator with output 'enum')
+ * - `{ toolCall }`: a call to one of the tools offered to the model
+ *
+ * The prompt text a rule is matched against contains all messages in order, with tool
+ * calls and results rendered as `[tool-call name] {...}` and `[tool-result name] {...}`.
+ * Rules are tried in order and the first match wins, so in multi-step tool loops the rules
+ * for later steps (matching on tool results) should come first.
+ *
+ * Both generate and stream calls are supported, usage is estimated at ~4 characters per token
+ * so the logging wrapper still shows token counts.
+ */
+
+export type MockReply =
+	| { text: string }
+	| { object: unknown }
+	| { enum: string }
+	| { toolCall: { toolName: string; input: unknown } };
+
+export interface MockRule {
+	match: RegExp;
+	reply: MockReply | ((prompt: string) => MockReply);
+}
+
+const CHARS_PER_TOKEN = 4;
+const STREAM_CHUNK_SIZE = 20;
+
+export class MockRuleNotFoundError extends Error {
+	constructor(public readonly modelId: string, public readonly prompt: string) {
+		super(`No mock rule for ${modelId} matches the prompt: "${prompt.slice(0, 200)}"`);
+		this.name = 'MockRuleNotFoundError';
+	}
+}
+
+function stringify(value: unknown): string {
+	return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Flatten the prompt into the text the rules are matched against
+export function getMockPromptText(params: LanguageModelV2CallOptions): string {
+	const lines: string[] = [];
+
+	for (const message of params.prompt) {
+		if (message.role === 'system') {
+			lines.push(message.content);
+			continue;
+		}
+
+		for (const part of message.content) {
+			if (part.type === 'text') {
+				lines.push(part.text);
+			} else if (part.type === 'tool-call') {
+				lines.push(`[tool-call ${part.toolName}] ${stringify(part.input)}`);
+			} else if (part.type === 'tool-result') {
+				lines.push(`[tool-result ${part.toolName}] ${stringify(part.output.value)}`);
+			}
+		}
+	}
+
+	return lines.join('\n');
+}
+
+function findReply(rules: MockRule[], prompt: string, params: LanguageModelV2CallOptions): MockReply | undefined {
+	const toolNames = new Set((params.tools ?? []).map(tool => tool.name));
+
+	for (const rule of rules) {
+		if (!rule.match.test(prompt)) {
+			continue;
+		}
+
+		const reply = typeof rule.reply === 'function' ? rule.reply(prompt) : rule.reply;
+
+		// Tool call rules only apply while the tool is offered to the model
+		if ('toolCall' in reply && !toolNames.has(reply.toolCall.toolName)) {
+			continue;
+		}
+
+		return reply;
+	}
+
+	return undefined;
+}
+
+// ObjectGenerator wraps arrays as { elements: [...] } - see the AI SDK output strategies
+function expectsElements(params: LanguageModelV2CallOptions): boolean {
+	if (params.responseFormat?.type !== 'json') {
+		return false;
+	}
+	const schema = params.responseFormat.schema as { properties?: Record<string, unknown> } | undefined;
+	return schema?.properties?.elements !== undefined;
+}
+
+function toContent(
+	reply: MockReply,
+	params: LanguageModelV2CallOptions,
+	callId: number
+): { content: LanguageModelV2Content; finishReason: LanguageModelV2FinishReason } {
+	if ('toolCall' in reply) {
+		return {
+			content: {
+				type: 'tool-call',
+				toolCallId: `mock-call-${callId}`,
+				toolName: reply.toolCall.toolName,
+				input: stringify(reply.toolCall.input)
+			},
+			finishReason: 'tool-calls'
+		};
+	}
+
+	let text: string;
+	if ('enum' in reply) {
+		text = JSON.stringify({ result: reply.enum });
+	} else if ('object' in reply) {
+		text = JSON.stringify(
+			Array.isArray(reply.object) && expectsElements(params)
+				? { elements: reply.object }
+				: reply.object
+		);
+	} else {
+		text = reply.text;
+	}
+
+	return { content: { type: 'text', text }, finishReason: 'stop' };
+}
+
+function estimateUsage(prompt: string, content: LanguageModelV2Content): LanguageModelV2Usage {
+	const output = content.type === 'text'
+		? content.text
+		: (content.type === 'tool-call' ? content.input : '');
+	const inputTokens = Math.ceil(prompt.length / CHARS_PER_TOKEN);
+	const outputTokens = Math.ceil(output.length / CHARS_PER_TOKEN);
+	return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+function toStreamParts(
+	content: LanguageModelV2Content,
+	finishReason: LanguageModelV2FinishReason,
+	usage: LanguageModelV2Usage,
+	modelId: string
+): LanguageModelV2StreamPart[] {
+	const parts: LanguageModelV2StreamPart[] = [
+		{ type: 'stream-start', warnings: [] },
+		{ type: 'response-metadata', id: `mock-${Date.now()}`, modelId, timestamp: new Date() }
+	];
+
+	if (content.type === 'text') {
+		parts.push({ type: 'text-start', id: '0' });
+		for (let i = 0; i < content.text.length; i += STREAM_CHUNK_SIZE) {
+			parts.push({ type: 'text-delta', id: '0', delta: content.text.slice(i, i + STREAM_CHUNK_SIZE) });
+		}
+		parts.push({ type: 'text-end', id: '0' });
+	} else if (content.type === 'tool-call') {
+		parts.push({ type: 'tool-input-start', id: content.toolCallId, toolName: content.toolName });
+		parts.push({ type: 'tool-input-delta', id: content.toolCallId, delta: content.input });
+		parts.push({ type: 'tool-input-end', id: content.toolCallId });
+		parts.push(content);
+	}
+
+	parts.push({ type: 'finish', usage, finishReason });
+	return parts;
+}
+
+// Mock model factory
+export function createMockModel(modelId: string, rules: MockRule[]): LanguageModelV2 {
+	let callCounter = 0;
+
+	const respond = (params: LanguageModelV2CallOptions) => {
+		const callId = ++callCounter;
+		const prompt = getMockPromptText(params);
+		const reply = findReply(rules, prompt, params);
+		if (!reply) {
+			throw new MockRuleNotFoundError(modelId, prompt);
+		}
+
+		const { content, finishReason } = toContent(reply, params, callId);
+		return { content, finishReason, usage: estimateUsage(prompt, content) };
+	};
+
+	return {
+		specificationVersion: 'v2',
+		provider: 'mock',
+		modelId,
+		supportedUrls: {},
+
+		doGenerate(params) {
+			const { content, finishReason, usage } = respond(params);
+			return Promise.resolve({
+				content: [content],
+				finishReason,
+				usage,
+				response: { id: `mock-${Date.now()}`, modelId, timestamp: new Date() },
+				warnings: []
+			});
+		},
+
+		doStream(params) {
+			const { content, finishReason, usage } = respond(params);
+			const parts = toStreamParts(content, finishReason, usage, modelId);
+			return Promise.resolve({
+				stream: new ReadableStream<LanguageModelV2StreamPart>({
+					start(controller) {
+						parts.forEach(part => { controller.enqueue(part); });
+						controller.close();
+					}
+				})
+			});
+		}
+	};
+}
@@ -0,0 +1,241 @@
+import { wrapLanguageModel } from 'ai';
+import {
+	LanguageModelV2,
+	LanguageModelV2StreamPart,
+	LanguageModelV2Usage
+} from '@ai-sdk/provider';
+import { getTraceEmitter } from './model-logging';
+
+/**
+ * Model Rate Limiter (Optional)
+ *
+ * Limits how many calls to a model are in flight at once, and how many requests and tokens
+ * it is sent per minute. Calls over a limit wait in a queue and are released in order, so the
+ * automatic parallel loops in Cascada scripts do not run into provider rate limits.
+ *
+ * Tokens are only known once a call completes, so the tokens-per-minute limit holds new calls
+ * back while the tokens used in the last minute are at or above the limit.
+ *
+ * A call that is aborted while it waits (its `abortSignal`) leaves the queue and rejects with
+ * the abort reason, it does not take a slot.
+ *
+ * Queueing is reported through the progress logging of the current call (queue depth and
+ * wait time), so wrap this inside `withProgressIndicator`.
+ *
+ * Usage - see setup.ts (MODEL_MAX_CONCURRENCY, MODEL_RPM, MODEL_TPM)
+ */
+
+export interface RateLimits {
+	maxConcurrent?: number;
+	requestsPerMinute?: number;
+	tokensPerMinute?: number;
+}
+
+const WINDOW_MS = 60_000;
+
+interface Limiter {
+	// Resolves once the call may start, rejects when the signal aborts before that
+	acquire(signal: AbortSignal | undefined): Promise<void>;
+	release(usage: LanguageModelV2Usage | undefined): void;
+}
+
+function createLimiter(limits: RateLimits): Limiter {
+	let active = 0;
+	const queue: (() => void)[] = [];
+	const requestTimes: number[] = [];
+	const tokenUsage: { time: number; tokens: number }[] = [];
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const prune = (now: number) => {
+		while (requestTimes.length > 0 && requestTimes[0] <= now - WINDOW_MS) {
+			requestTimes.shift();
+		}
+		while (tokenUsage.length > 0 && tokenUsage[0].time <= now - WINDOW_MS) {
+			tokenUsage.shift();
+		}
+	};
+
+	// Milliseconds until the next call may start, 0 if it can start now, undefined if it has to wait for a release
+	const getDelay = (now: number): number | undefined => {
+		if (limits.maxConcurrent !== undefined && active >= limits.maxConcurrent) {
+			return undefined;
+		}
+
+		let delay = 0;
+		if (limits.requestsPerMinute !== undefined && requestTimes.length >= limits.requestsPerMinute) {
+			delay = Math.max(delay, requestTimes[0] + WINDOW_MS - now);
+		}
+		if (limits.tokensPerMinute !== undefined) {
+			let tokens = tokenUsage.reduce((sum, entry) => sum + entry.tokens, 0);
+			// Wait until enough of the window has expired to get below the limit
+			for (const entry of tokenUsage) {
+				if (tokens < limits.tokensPerMinute) {
+					break;
+				}
+				tokens -= entry.tokens;
+				delay = Math.max(delay, entry.time + WINDOW_MS - now);
+			}
+		}
+		return delay;
+	};
+
+	const pump = () => {
+		clearTimeout(timer);
+		timer = undefined;
+
+		while (queue.length > 0) {
+			const now = Date.now();
+			prune(now);
+
+			const delay = getDelay(now);
+			if (delay === undefined) {
+				return;
+			}
+			if (delay > 0) {
+				timer = setTimeout(pump, delay);
+				return;
+			}
+
+			active++;
+			requestTimes.push(now);
+			queue.shift()!();
+		}
+	};
+
+	return {
+		acquire(signal) {
+			const emit = getTraceEmitter();
+
+			return new Promise<void>((resolve, reject) => {
+				if (signal?.aborted) {
+					reject(signal.reason as Error);
+					return;
+				}
+
+				const queuedAt = Date.now();
+				const waiting = queue.length > 0 || getDelay(queuedAt) !== 0;
+
+				const onAbort = () => {
+					const index = queue.indexOf(start);
+					if (index !== -1) {
+						queue.splice(index, 1);
+						reject(signal?.reason as Error);
+						pump();
+					}
+				};
+				const start = () => {
+					signal?.removeEventListener('abort', onAbort);
+					if (waiting) {
+						emit?.({ type: 'queue', phase: 'released', queueDepth: queue.length, waitMs: Date.now() - queuedAt });
+					}
+					resolve();
+				};
+
+				queue.push(start);
+				signal?.addEventListener('abort', onAbort, { once: true });
+
+				if (waiting) {
+					emit?.({ type: 'queue', phase: 'waiting', queueDepth: queue.length, waitMs: 0 });
+				}
+				pump();
+			});
+		},
+
+		release(usage) {
+			active--;
+			const tokens = usage?.totalTokens ?? (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0);
+			if (tokens > 0) {
+				tokenUsage.push({ time: Date.now(), tokens });
+			}
+			pump();
+		}
+	};
+}
+
+// Rate limit wrapper
+export function withRateLimit(model: LanguageModelV2, limits: RateLimits) {
+	if (
+		limits.maxConcurrent === undefined &&
+		limits.requestsPerMinute === undefined &&
+		limits.tokensPerMinute === undefined
+	) {
+		return model;
+	}
+
+	const limiter = createLimiter(limits);
+
+	return wrapLanguageModel({
+		model,
+		middleware: {
+			wrapGenerate: async ({ doGenerate, params }) => {
+				await limiter.acquire(params.abortSignal);
+
+				let usage: LanguageModelV2Usage | undefined;
+				try {
+					const result = await doGenerate();
+					usage = result.usage;
+					return result;
+				} finally {
+					limiter.release(usage);
+				}
+			},
+
+			wrapStream: async ({ doStream, params }) => {
+				await limiter.acquire(params.abortSignal);
+
+				let released = false;
+				const release = (usage: LanguageModelV2Usage | undefined) => {
+					if (!released) {
+						released = true;
+						limiter.release(usage);
+					}
+				};
+
+				// An aborted call may never finish or cancel its stream
+				params.abortSignal?.addEventListener('abort', () => { release(undefined); }, { once: true });
+
+				let streamResult;
+				try {
+					streamResult = await doStream();
+				} catch (error) {
+					release(undefined);
+					throw error;
+				}
+
+				const { stream, ...rest } = streamResult;
+
+				// The slot is held until the stream is finished, cancelled or fails
+				const reader = stream.getReader();
+				const releasingStream = new ReadableStream<LanguageModelV2StreamPart>({
+					async pull(controller) {
+						try {
+							const { done, value } = await reader.read();
+							if (done) {
+								release(undefined);
+								controller.close();
+								return;
+							}
+							if (value.type === 'finish') {
+								release(value.usage);
+							}
+							controller.enqueue(value);
+						} catch (error) {
+							release(undefined);
+							controller.error(error);
+						}
+					},
+
+					async cancel(reason) {
+						release(undefined);
+						await reader.cancel(reason);
+					}
+				});
+
+				return {
+					stream: releasingStream,
+					...rest
+				};
+			}
+		}
+	});
+}
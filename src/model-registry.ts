@@ -0,0 +1,226 @@
+import { readFileSync } from 'fs';
+import { wrapLanguageModel } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import {
+	LanguageModelV2,
+	SharedV2ProviderOptions
+} from '@ai-sdk/provider';
+
+/**
+ * Model Registry
+ *
+ * Defines which model plays which role (basic, advanced or any custom role) in a JSON
+ * config file instead of TypeScript, so the models can be switched for everyone with a
+ * `models.json` in the project root (or for one run with an env override). Its roles are
+ * merged over DEFAULT_MODELS_CONFIG:
+ *
+ *   {
+ *     "providers": {
+ *       "lmstudio": { "type": "openai-compatible", "baseURL": "http://localhost:1234/v1" }
+ *     },
+ *     "roles": {
+ *       "basic": { "model": "openai:gpt-4.1-nano", "displayName": "GPT-4.1-nano" },
+ *       "advanced": { "model": "anthropic:claude-haiku-4-5", "fallbacks": ["basic"] },
+ *       "local": { "model": "ollama:llama3.1", "showProgress": false }
+ *     }
+ *   }
+ *
+ * - `model` is `<provider>:<model id>`. Built-in providers: openai, anthropic, and the
+ *   OpenAI-compatible local servers ollama (localhost:11434) and llamacpp (localhost:8080)
+ * - `providers` adds providers or overrides the built-in ones (base URL, API key env var, headers)
+ * - `providerOptions` are sent with every call of the role (e.g. reasoning effort)
+ * - `displayName` is the name in the progress output, defaults to the model id
+ * - `fallbacks` are roles to fall back to once the role's retries are used up
+ *
+ * Env overrides for the configured roles: `<ROLE>_MODEL=provider:model-id` and
+ * `<ROLE>_MODEL_NAME=display name`, e.g. BASIC_MODEL=openai:gpt-4.1-mini. Overriding the
+ * model without a name shows the model id.
+ *
+ * Usage - see setup.ts (MODELS_CONFIG)
+ */
+
+export type ProviderType = 'openai' | 'anthropic' | 'openai-compatible';
+
+export interface ProviderConfig {
+	type: ProviderType;
+	baseURL?: string;
+	// Environment variable with the API key (defaults to the provider's own, e.g. OPENAI_API_KEY)
+	apiKeyEnv?: string;
+	headers?: Record<string, string>;
+}
+
+export interface ModelRoleConfig {
+	// <provider>:<model id>
+	model: string;
+	displayName?: string;
+	showProgress?: boolean;
+	providerOptions?: SharedV2ProviderOptions;
+	fallbacks?: string[];
+}
+
+export interface ModelsConfig {
+	providers?: Record<string, ProviderConfig>;
+	roles: Record<string, ModelRoleConfig>;
+}
+
+export interface ModelRole {
+	name: string;
+	provider: string;
+	modelId: string;
+	displayName: string;
+	showProgress: boolean;
+	providerOptions: SharedV2ProviderOptions | undefined;
+	fallbacks: string[];
+}
+
+const BUILT_IN_PROVIDERS: Record<string, ProviderConfig> = {
+	openai: { type: 'openai' },
+	anthropic: { type: 'anthropic' },
+	ollama: { type: 'openai-compatible', baseURL: 'http://localhost:11434/v1' },
+	llamacpp: { type: 'openai-compatible', baseURL: 'http://localhost:8080/v1' }
+};
+
+export const DEFAULT_MODELS_CONFIG: ModelsConfig = {
+	roles: {
+		basic: { model: 'openai:gpt-4.1-nano', displayName: 'GPT-4.1-nano' },
+		advanced: { model: 'anthropic:claude-haiku-4-5', displayName: 'Claude-4.5-Haiku', fallbacks: ['basic'] }
+	}
+};
+
+export class UnknownModelRoleError extends Error {
+	constructor(public readonly role: string, public readonly knownRoles: string[]) {
+		super(`Unknown model role "${role}", configured roles: ${knownRoles.join(', ')}`);
+		this.name = 'UnknownModelRoleError';
+	}
+}
+
+function parseModelSpec(spec: string, role: string): { provider: string; modelId: string } {
+	const separator = spec.indexOf(':');
+	if (separator <= 0 || separator === spec.length - 1) {
+		throw new Error(`Invalid model "${spec}" for role "${role}", expected <provider>:<model id>, e.g. openai:gpt-4.1-mini`);
+	}
+	return { provider: spec.slice(0, separator), modelId: spec.slice(separator + 1) };
+}
+
+// Roles from a JSON config file over the defaults (a missing file means defaults only), with env overrides
+export function loadModelsConfig(path: string, env: NodeJS.ProcessEnv = process.env): ModelsConfig {
+	let fileConfig: Partial<ModelsConfig> = {};
+	try {
+		fileConfig = JSON.parse(readFileSync(path, 'utf-8')) as Partial<ModelsConfig>;
+	} catch (error) {
+		if (!(error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT')) {
+			throw error;
+		}
+	}
+
+	const roles: Record<string, ModelRoleConfig> = { ...DEFAULT_MODELS_CONFIG.roles, ...fileConfig.roles };
+
+	// <ROLE>_MODEL and <ROLE>_MODEL_NAME of the configured roles
+	for (const [role, config] of Object.entries(roles)) {
+		const prefix = role.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+		const model = env[`${prefix}_MODEL`];
+		const displayName = env[`${prefix}_MODEL_NAME`];
+		roles[role] = {
+			...config,
+			...(model ? { model } : {}),
+			// The configured name belongs to the configured model
+			...(model || displayName ? { displayName } : {})
+		};
+	}
+
+	return { providers: fileConfig.providers ?? {}, roles };
+}
+
+export function resolveModelRoles(config: ModelsConfig): Record<string, ModelRole> {
+	const roleNames = Object.keys(config.roles);
+
+	return Object.fromEntries(Object.entries(config.roles).map(([name, role]) => {
+		const { provider, modelId } = parseModelSpec(role.model, name);
+		const fallbacks = role.fallbacks ?? [];
+		const unknown = fallbacks.find(fallback => !(fallback in config.roles));
+		if (unknown !== undefined) {
+			throw new UnknownModelRoleError(unknown, roleNames);
+		}
+
+		return [name, {
+			name,
+			provider,
+			modelId,
+			displayName: role.displayName ?? modelId,
+			showProgress: role.showProgress ?? true,
+			providerOptions: role.providerOptions,
+			fallbacks
+		}];
+	}));
+}
+
+// Merge the role's provider options under the ones set by the call
+function withProviderOptions(model: LanguageModelV2, providerOptions: SharedV2ProviderOptions | undefined) {
+	if (!providerOptions) {
+		return model;
+	}
+
+	return wrapLanguageModel({
+		model,
+		middleware: {
+			transformParams: ({ params }) => {
+				const merged: SharedV2ProviderOptions = { ...providerOptions };
+				for (const [provider, options] of Object.entries(params.providerOptions ?? {})) {
+					merged[provider] = { ...merged[provider], ...options };
+				}
+				return Promise.resolve({ ...params, providerOptions: merged });
+			}
+		}
+	});
+}
+
+function getProviderConfig(role: ModelRole, providers: Record<string, ProviderConfig>): ProviderConfig {
+	const known = { ...BUILT_IN_PROVIDERS, ...providers };
+	if (!(role.provider in known)) {
+		throw new Error(`Unknown provider "${role.provider}" for role "${role.name}", known providers: ${Object.keys(known).join(', ')}`);
+	}
+	return known[role.provider];
+}
+
+// Environment variable the role's API key is read from, undefined for local servers without a key
+export function getApiKeyEnv(role: ModelRole, providers: Record<string, ProviderConfig> = {}): string | undefined {
+	const config = getProviderConfig(role, providers);
+	if (config.apiKeyEnv) {
+		return config.apiKeyEnv;
+	}
+	switch (config.type) {
+		case 'openai':
+			return 'OPENAI_API_KEY';
+		case 'anthropic':
+			return 'ANTHROPIC_API_KEY';
+		case 'openai-compatible':
+			return undefined;
+	}
+}
+
+export function createProviderModel(role: ModelRole, providers: Record<string, ProviderConfig> = {}): LanguageModelV2 {
+	const config = getProviderConfig(role, providers);
+
+	const settings = {
+		baseURL: config.baseURL,
+		apiKey: config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined,
+		headers: config.headers
+	};
+
+	let model: LanguageModelV2;
+	switch (config.type) {
+		case 'openai':
+			model = createOpenAI(settings)(role.modelId);
+			break;
+		case 'anthropic':
+			model = createAnthropic(settings)(role.modelId);
+			break;
+		case 'openai-compatible':
+			// Local servers implement the chat completions API and usually do not check the key
+			model = createOpenAI({ ...settings, name: role.provider, apiKey: settings.apiKey ?? 'local' }).chat(role.modelId);
+			break;
+	}
+
+	return withProviderOptions(model, role.providerOptions);
+}
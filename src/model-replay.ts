@@ -0,0 +1,241 @@
+import fs from 'fs/promises';
+import { createHash, randomBytes } from 'crypto';
+import { dirname } from 'path';
+import {
+	LanguageModelV2,
+	LanguageModelV2CallOptions,
+	LanguageModelV2Content,
+	LanguageModelV2StreamPart
+} from '@ai-sdk/provider';
+
+/**
+ * Recording and replaying model calls
+ *
+ * Helpers shared by the cassette (model-cassette.ts) and the response cache (model-cache.ts):
+ * a stable hash of the call options, and conversion of generate results and stream chunks
+ * to JSON and back. A stream call can be replayed from a recorded generate call and vice
+ * versa - the chunks (`text-delta`, `tool-call`, `finish`, ...) are rebuilt from the content.
+ * `writeJsonFile` is also used by the step checkpoints (example-checkpoints.ts).
+ */
+
+export type GenerateResult = Awaited<ReturnType<LanguageModelV2['doGenerate']>>;
+
+export type RecordedCall =
+	| { type: 'generate'; modelId: string; result: GenerateResult }
+	| { type: 'stream'; modelId: string; parts: LanguageModelV2StreamPart[] };
+
+// Call options that do not affect the model output and can not be serialized
+const IGNORED_PARAMS = new Set(['abortSignal', 'headers', 'includeRawChunks']);
+
+// providerOptions used by our own middleware, not sent to the provider
+const IGNORED_PROVIDER_OPTIONS = new Set(['cache']);
+
+// JSON.stringify with sorted keys, so the hash does not depend on property order
+export function stableStringify(value: unknown): string {
+	if (value === undefined) {
+		return 'null';
+	}
+	if (value === null || typeof value !== 'object') {
+		return JSON.stringify(value);
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(',')}]`;
+	}
+	if (value instanceof Uint8Array || value instanceof URL) {
+		return JSON.stringify(value.toString());
+	}
+	const entries = Object.entries(value as Record<string, unknown>)
+		.filter(([, v]) => v !== undefined && typeof v !== 'function')
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+	return `{${entries.join(',')}}`;
+}
+
+// JSON turns dates into strings, restore them on replay
+function reviveTimestamp<T extends { timestamp?: Date }>(value: T): T {
+	return value.timestamp !== undefined
+		? { ...value, timestamp: new Date(value.timestamp) }
+		: value;
+}
+
+function reviveGenerateResult(result: GenerateResult): GenerateResult {
+	return result.response ? { ...result, response: reviveTimestamp(result.response) } : result;
+}
+
+function reviveStreamPart(part: LanguageModelV2StreamPart): LanguageModelV2StreamPart {
+	return part.type === 'response-metadata' ? reviveTimestamp(part) : part;
+}
+
+// Errors are not JSON-serializable, keep the message
+function serializeStreamPart(part: LanguageModelV2StreamPart): LanguageModelV2StreamPart {
+	if (part.type === 'error') {
+		return { type: 'error', error: part.error instanceof Error ? part.error.message : String(part.error) };
+	}
+	return part;
+}
+
+// Rebuild the stream chunks from a recorded generate result
+function contentToStreamParts(result: GenerateResult): LanguageModelV2StreamPart[] {
+	const parts: LanguageModelV2StreamPart[] = [{ type: 'stream-start', warnings: result.warnings }];
+	if (result.response) {
+		parts.push({ type: 'response-metadata', ...result.response });
+	}
+
+	result.content.forEach((part, index) => {
+		const id = String(index);
+		if (part.type === 'text') {
+			parts.push({ type: 'text-start', id });
+			parts.push({ type: 'text-delta', id, delta: part.text });
+			parts.push({ type: 'text-end', id });
+		} else if (part.type === 'reasoning') {
+			parts.push({ type: 'reasoning-start', id });
+			parts.push({ type: 'reasoning-delta', id, delta: part.text });
+			parts.push({ type: 'reasoning-end', id });
+		} else if (part.type === 'tool-call') {
+			parts.push({ type: 'tool-input-start', id: part.toolCallId, toolName: part.toolName });
+			parts.push({ type: 'tool-input-delta', id: part.toolCallId, delta: part.input });
+			parts.push({ type: 'tool-input-end', id: part.toolCallId });
+			parts.push(part);
+		} else {
+			parts.push(part);
+		}
+	});
+
+	parts.push({
+		type: 'finish',
+		usage: result.usage,
+		finishReason: result.finishReason,
+		providerMetadata: result.providerMetadata
+	});
+	return parts;
+}
+
+// Fold recorded stream chunks back into a generate result
+function streamPartsToContent(parts: LanguageModelV2StreamPart[]): GenerateResult {
+	const content: LanguageModelV2Content[] = [];
+	const textById = new Map<string, { type: 'text' | 'reasoning'; text: string }>();
+	const result: GenerateResult = {
+		content,
+		finishReason: 'unknown',
+		usage: { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined },
+		warnings: []
+	};
+
+	for (const part of parts) {
+		if (part.type === 'text-start' || part.type === 'reasoning-start') {
+			const entry = { type: part.type === 'text-start' ? 'text' as const : 'reasoning' as const, text: '' };
+			textById.set(`${entry.type}-${part.id}`, entry);
+			content.push(entry);
+		} else if (part.type === 'text-delta' || part.type === 'reasoning-delta') {
+			const entry = textById.get(`${part.type === 'text-delta' ? 'text' : 'reasoning'}-${part.id}`);
+			if (entry) {
+				entry.text += part.delta;
+			}
+		} else if (
+			part.type === 'tool-call' ||
+			part.type === 'tool-result' ||
+			part.type === 'file' ||
+			part.type === 'source'
+		) {
+			content.push(part);
+		} else if (part.type === 'stream-start') {
+			result.warnings = part.warnings;
+		} else if (part.type === 'response-metadata') {
+			result.response = { id: part.id, timestamp: part.timestamp, modelId: part.modelId };
+		} else if (part.type === 'finish') {
+			result.finishReason = part.finishReason;
+			result.usage = part.usage;
+			result.providerMetadata = part.providerMetadata;
+		}
+	}
+
+	return result;
+}
+
+function streamFromParts(parts: LanguageModelV2StreamPart[]): ReadableStream<LanguageModelV2StreamPart> {
+	return new ReadableStream<LanguageModelV2StreamPart>({
+		start(controller) {
+			parts.forEach(part => { controller.enqueue(reviveStreamPart(part)); });
+			controller.close();
+		}
+	});
+}
+
+export function hashCallOptions(model: LanguageModelV2, params: LanguageModelV2CallOptions): string {
+	const relevant: Record<string, unknown> = Object.fromEntries(
+		Object.entries(params).filter(([key]) => !IGNORED_PARAMS.has(key))
+	);
+	if (params.providerOptions) {
+		relevant.providerOptions = Object.fromEntries(
+			Object.entries(params.providerOptions).filter(([key]) => !IGNORED_PROVIDER_OPTIONS.has(key))
+		);
+	}
+
+	return createHash('sha256')
+		.update(stableStringify({ provider: model.provider, modelId: model.modelId, params: relevant }))
+		.digest('hex')
+		.slice(0, 32);
+}
+
+// Request/response bodies can be large and are not needed for replay
+export function recordGenerate(model: LanguageModelV2, result: GenerateResult): RecordedCall {
+	return {
+		type: 'generate',
+		modelId: model.modelId,
+		result: {
+			...result,
+			request: undefined,
+			response: result.response ? { ...result.response, body: undefined } : undefined
+		}
+	};
+}
+
+// Pass the stream through, and hand the recording over once it has finished
+export function recordStream(
+	model: LanguageModelV2,
+	stream: ReadableStream<LanguageModelV2StreamPart>,
+	onRecorded: (recorded: RecordedCall) => Promise<void>
+): ReadableStream<LanguageModelV2StreamPart> {
+	const parts: LanguageModelV2StreamPart[] = [];
+
+	return stream.pipeThrough(new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+		transform(chunk, controller) {
+			if (chunk.type !== 'raw') {
+				parts.push(serializeStreamPart(chunk));
+			}
+			controller.enqueue(chunk);
+		},
+
+		async flush() {
+			// Only complete streams are worth replaying
+			if (parts.some(part => part.type === 'finish')) {
+				await onRecorded({ type: 'stream', modelId: model.modelId, parts });
+			}
+		}
+	}));
+}
+
+export function replayGenerate(recorded: RecordedCall): GenerateResult {
+	return recorded.type === 'generate'
+		? reviveGenerateResult(recorded.result)
+		: streamPartsToContent(recorded.parts.map(reviveStreamPart));
+}
+
+export function replayStream(recorded: RecordedCall): ReadableStream<LanguageModelV2StreamPart> {
+	return streamFromParts(recorded.type === 'stream'
+		? recorded.parts
+		: contentToStreamParts(reviveGenerateResult(recorded.result)));
+}
+
+// Write to a temporary file and rename it into place, so an interrupted run never leaves half a file behind
+export async function writeJsonFile(path: string, value: unknown): Promise<void> {
+	const tempPath = `${path}.${randomBytes(6).toString('hex')}.tmp`;
+	await fs.mkdir(dirname(path), { recursive: true });
+	try {
+		await fs.writeFile(tempPath, JSON.stringify(value, null, '\t') + '\n', 'utf-8');
+		await fs.rename(tempPath, path);
+	} catch (error) {
+		await fs.rm(tempPath, { force: true });
+		throw error;
+	}
+}
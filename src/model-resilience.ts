@@ -0,0 +1,292 @@
+import { wrapLanguageModel } from 'ai';
+import {
+	APICallError,
+	InvalidArgumentError,
+	InvalidPromptError,
+	LanguageModelV2,
+	LanguageModelV2CallOptions,
+	LanguageModelV2StreamPart,
+	TypeValidationError
+} from '@ai-sdk/provider';
+import { getTraceEmitter } from './model-logging';
+
+/**
+ * Model Resilience Middleware (Optional)
+ *
+ * Keeps a single rate limit (429) or server error (5xx) from failing a whole Script run:
+ * - Retries retryable errors with exponential backoff and jitter (honoring `retry-after`)
+ * - Aborts calls that take longer than a per-call timeout (timeouts are retried too). For
+ *   streams the timeout covers the wait for the first chunk, a stream that is delivering
+ *   chunks is not cut off
+ * - Falls back to the next model of an ordered list once the retries are used up, or right
+ *   away on other provider errors (4xx, unknown model, ...). Only an abort by the caller and
+ *   an invalid prompt or argument, which every model would refuse, are passed on directly
+ *
+ * This middleware owns the retries: the error it passes on is marked as not retryable, so
+ * the AI SDK's own retries (`maxRetries` of generateText/streamText, 2 by default) do not
+ * multiply the attempts.
+ *
+ * Retries and fallbacks are reported through the progress logging of the current call
+ * (see `getTraceEmitter` in model-logging.ts), so wrap this inside `withProgressIndicator`.
+ * Streaming calls are retried while the stream is being opened - once chunks have been
+ * delivered a failure can no longer be retried transparently.
+ *
+ * Usage - see setup.ts (MODEL_MAX_RETRIES, MODEL_TIMEOUT_MS)
+ */
+
+export interface ResilienceOptions {
+	// Retries per model, after the first attempt
+	maxRetries?: number;
+	initialDelayMs?: number;
+	maxDelayMs?: number;
+	// Per attempt, undefined for no timeout
+	timeoutMs?: number;
+	// Tried in order once the retries of the previous model are used up
+	fallbacks?: LanguageModelV2[];
+}
+
+const DEFAULT_OPTIONS = {
+	maxRetries: 2,
+	initialDelayMs: 1000,
+	maxDelayMs: 30000
+};
+
+export class ModelTimeoutError extends Error {
+	constructor(public readonly modelId: string, public readonly timeoutMs: number) {
+		super(`Call to ${modelId} timed out after ${timeoutMs}ms`);
+		this.name = 'ModelTimeoutError';
+	}
+}
+
+function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+function isRetryable(error: unknown): boolean {
+	return error instanceof ModelTimeoutError || (APICallError.isInstance(error) && error.isRetryable);
+}
+
+// Errors in the call itself, a fallback model would fail the same way
+function isInvalidCall(error: unknown): boolean {
+	return InvalidPromptError.isInstance(error) || InvalidArgumentError.isInstance(error) || TypeValidationError.isInstance(error);
+}
+
+// Keep the AI SDK from retrying what was already retried here
+function toFinalError(error: unknown): unknown {
+	if (!APICallError.isInstance(error) || !error.isRetryable) {
+		return error;
+	}
+	return new APICallError({
+		message: error.message,
+		url: error.url,
+		requestBodyValues: error.requestBodyValues,
+		statusCode: error.statusCode,
+		responseHeaders: error.responseHeaders,
+		responseBody: error.responseBody,
+		cause: error.cause,
+		isRetryable: false,
+		data: error.data
+	});
+}
+
+// Server-requested delay from the retry-after(-ms) response headers
+function getRetryAfterMs(error: unknown): number | undefined {
+	if (!APICallError.isInstance(error) || !error.responseHeaders) {
+		return undefined;
+	}
+
+	const headers = error.responseHeaders;
+	if (headers['retry-after-ms']) {
+		const ms = parseFloat(headers['retry-after-ms']);
+		return Number.isNaN(ms) ? undefined : ms;
+	}
+	if (headers['retry-after']) {
+		const seconds = parseFloat(headers['retry-after']);
+		if (!Number.isNaN(seconds)) {
+			return seconds * 1000;
+		}
+		const date = Date.parse(headers['retry-after']);
+		return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+	}
+	return undefined;
+}
+
+// Exponential backoff with jitter between 50% and 100% of the delay
+function getRetryDelay(retry: number, error: unknown, options: typeof DEFAULT_OPTIONS): number {
+	const backoff = Math.min(options.initialDelayMs * 2 ** (retry - 1), options.maxDelayMs);
+	const jittered = backoff / 2 + Math.random() * backoff / 2;
+	return Math.max(jittered, getRetryAfterMs(error) ?? 0);
+}
+
+function sleep(ms: number, abortSignal: AbortSignal | undefined): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (abortSignal?.aborted) {
+			reject(abortSignal.reason as Error);
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(abortSignal?.reason as Error);
+		};
+		const timer = setTimeout(() => {
+			abortSignal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		abortSignal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+interface AttemptTimeout {
+	// Stop the timeout, once the result or the first chunk of a stream has arrived
+	clear: () => void;
+	// A ModelTimeoutError for the abort caused by the timeout
+	toError: (error: unknown) => unknown;
+}
+
+// Run one attempt with its own timeout, on top of the caller's abort signal
+async function withTimeout<T>(
+	model: LanguageModelV2,
+	params: LanguageModelV2CallOptions,
+	timeoutMs: number | undefined,
+	call: (params: LanguageModelV2CallOptions, timeout: AttemptTimeout) => PromiseLike<T>
+): Promise<T> {
+	if (timeoutMs === undefined) {
+		return call(params, { clear: () => undefined, toError: error => error });
+	}
+
+	const controller = new AbortController();
+	const timer = setTimeout(() => { controller.abort(new ModelTimeoutError(model.modelId, timeoutMs)); }, timeoutMs);
+	const timeout: AttemptTimeout = {
+		clear: () => { clearTimeout(timer); },
+		toError: error => controller.signal.aborted && !params.abortSignal?.aborted
+			? new ModelTimeoutError(model.modelId, timeoutMs)
+			: error
+	};
+	const abortSignal = params.abortSignal
+		? AbortSignal.any([params.abortSignal, controller.signal])
+		: controller.signal;
+
+	try {
+		return await call({ ...params, abortSignal }, timeout);
+	} catch (error) {
+		timeout.clear();
+		throw timeout.toError(error);
+	}
+}
+
+// Pass the stream through, stopping the timeout at the first chunk and reporting an abort by the timeout as such
+function clearTimeoutOnFirstChunk(
+	stream: ReadableStream<LanguageModelV2StreamPart>,
+	timeout: AttemptTimeout
+): ReadableStream<LanguageModelV2StreamPart> {
+	const reader = stream.getReader();
+
+	return new ReadableStream<LanguageModelV2StreamPart>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				timeout.clear();
+				if (done) {
+					controller.close();
+				} else if (value.type === 'error') {
+					controller.enqueue({ ...value, error: timeout.toError(value.error) });
+				} else {
+					controller.enqueue(value);
+				}
+			} catch (error) {
+				timeout.clear();
+				controller.error(timeout.toError(error));
+			}
+		},
+
+		async cancel(reason) {
+			timeout.clear();
+			await reader.cancel(reason);
+		}
+	});
+}
+
+async function callWithResilience<T>(
+	models: LanguageModelV2[],
+	params: LanguageModelV2CallOptions,
+	options: typeof DEFAULT_OPTIONS & ResilienceOptions,
+	call: (model: LanguageModelV2, params: LanguageModelV2CallOptions, timeout: AttemptTimeout) => PromiseLike<T>
+): Promise<T> {
+	const emit = getTraceEmitter();
+	let lastError: unknown;
+
+	for (const [index, model] of models.entries()) {
+		if (index > 0) {
+			emit?.({
+				type: 'fallback',
+				fromModelId: models[index - 1].modelId,
+				toModelId: model.modelId,
+				message: getErrorMessage(lastError)
+			});
+		}
+
+		for (let retry = 0; ; retry++) {
+			try {
+				return await withTimeout(model, params, options.timeoutMs, (attemptParams, timeout) => call(model, attemptParams, timeout));
+			} catch (error) {
+				lastError = error;
+
+				if (params.abortSignal?.aborted || isInvalidCall(error)) {
+					// The caller gave up, or a fallback would fail the same way
+					throw toFinalError(error);
+				}
+				if (!isRetryable(error) || retry >= options.maxRetries) {
+					// On to the next model, if any
+					break;
+				}
+
+				const delayMs = getRetryDelay(retry + 1, error, options);
+				emit?.({
+					type: 'retry',
+					retry: retry + 1,
+					maxRetries: options.maxRetries,
+					delayMs,
+					message: getErrorMessage(error)
+				});
+				await sleep(delayMs, params.abortSignal);
+			}
+		}
+	}
+
+	throw toFinalError(lastError);
+}
+
+// Resilience wrapper
+export function withResilience(model: LanguageModelV2, options: ResilienceOptions = {}) {
+	const resolved = { ...DEFAULT_OPTIONS, ...options };
+	const models = [model, ...(options.fallbacks ?? [])];
+
+	return wrapLanguageModel({
+		model,
+		middleware: {
+			wrapGenerate: ({ params }) => callWithResilience(
+				models,
+				params,
+				resolved,
+				async (candidate, attemptParams, timeout) => {
+					try {
+						return await candidate.doGenerate(attemptParams);
+					} finally {
+						timeout.clear();
+					}
+				}
+			),
+
+			wrapStream: ({ params }) => callWithResilience(
+				models,
+				params,
+				resolved,
+				async (candidate, attemptParams, timeout) => {
+					const { stream, ...rest } = await candidate.doStream(attemptParams);
+					return { stream: clearTimeoutOnFirstChunk(stream, timeout), ...rest };
+				}
+			)
+		}
+	});
+}
@@ -1,20 +1,203 @@
 import 'dotenv/config';
 
-import { openai } from '@ai-sdk/openai';
-import { anthropic } from '@ai-sdk/anthropic';
+import { join } from 'path';
+import { LanguageModelV2 } from '@ai-sdk/provider';
 import { withProgressIndicator } from './model-logging';
+import { consoleSink, createJsonlSink, TraceSink } from './trace-sinks';
+import { createDashboardSink } from './trace-dashboard';
+import { createRedactor, loadRedactionRules } from './trace-redaction';
+import { createSpanRecorder, SpanRecorder, writeSpansOnExit } from './trace-spans';
+import { createToolTimeline, printTimelineOnExit } from './trace-tool-timeline';
+import { createCostTracker, loadPriceTable, printSummaryOnExit } from './model-costs';
+import { createBudget, withBudget } from './model-budget';
+import { withResilience } from './model-resilience';
+import { withRateLimit } from './model-rate-limit';
+import { withCache } from './model-cache';
+import { withCassette, CASSETTE_MODES, CassetteMode, DEFAULT_CASSETTE_TIME } from './model-cassette';
+import { CheckpointKeys, createCheckpointStore, createRunId, printResumeHintOnExit } from './example-checkpoints';
+import { createProviderModel, loadModelsConfig, resolveModelRoles, UnknownModelRoleError } from './model-registry';
+import { createMockModel } from './model-mock';
+import { exampleMockRules } from './mock-rules';
 
-const showProgressIndicators = true;
+// Live dashboard in a terminal (TRACE_DASHBOARD=false for plain lines), progress lines otherwise.
+// Only shown for roles with showProgress (the default)
+const useDashboard = process.stdout.isTTY && process.env.TRACE_DASHBOARD !== 'false';
+const progressSink: TraceSink = useDashboard ? createDashboardSink() : consoleSink;
 
-// Export wrapped models with progress indicators
-export const basicModel = withProgressIndicator(
-	openai('gpt-4.1-nano'),
-	'GPT-4o-nano',
-	showProgressIndicators
-);
+// Sinks that get the calls of every role: the JSONL trace when TRACE_FILE is set, spans, spend and tool timeline
+const traceSinks: TraceSink[] = [];
+if (process.env.TRACE_FILE) {
+	traceSinks.push(createJsonlSink(process.env.TRACE_FILE));
+}
 
-export const advancedModel = withProgressIndicator(
-	anthropic('claude-haiku-4-5'),
-	'Claude-4.5-Haiku',
-	showProgressIndicators
-);
\ No newline at end of file
+// Secrets and personal data are masked in all progress output and trace files,
+// detectors and custom patterns can be configured in redaction.json (or REDACTION_CONFIG)
+const redactor = createRedactor(loadRedactionRules(process.env.REDACTION_CONFIG ?? 'redaction.json'));
+
+// Run > step > model call spans, written as OTLP JSON when TRACE_SPANS_FILE is set
+let spanRecorder: SpanRecorder | undefined;
+if (process.env.TRACE_SPANS_FILE) {
+	spanRecorder = createSpanRecorder(process.env.EXAMPLE_NAME ?? 'default', redactor);
+	traceSinks.push(spanRecorder);
+	writeSpansOnExit(spanRecorder, process.env.TRACE_SPANS_FILE);
+}
+
+// Give each invocation of the steps in a Script context (or of a tool) its own span
+export function traceSteps<T extends Record<string, unknown>>(steps: T): T {
+	return spanRecorder ? spanRecorder.traceSteps(steps) : steps;
+}
+
+export function traceStep<T>(name: string, step: T): T {
+	return spanRecorder ? spanRecorder.traceStep(name, step) : step;
+}
+
+// Opt-in step checkpoints of this run (--checkpoints, or CHECKPOINTS=true), a new run id unless resuming one
+// (--resume <run id>, optionally --from <step>)
+const example = process.env.EXAMPLE_NAME ?? 'default';
+const checkpointStore = process.env.CHECKPOINTS === 'true' || process.env.EXAMPLE_RUN_ID !== undefined
+	? createCheckpointStore({
+		dir: join(process.env.CHECKPOINTS_DIR ?? '.cache/checkpoints', example),
+		runId: process.env.EXAMPLE_RUN_ID ?? createRunId(),
+		resume: process.env.EXAMPLE_RUN_ID !== undefined,
+		fromStep: process.env.EXAMPLE_FROM_STEP
+	})
+	: undefined;
+if (checkpointStore) {
+	printResumeHintOnExit(checkpointStore, example, process.env.EXAMPLE_BATCH);
+}
+
+// Answer the steps of a Script context from the checkpoints of a resumed run, and save their results
+export function checkpointSteps<T extends Record<string, unknown>>(steps: T, keys?: CheckpointKeys<T>): T {
+	return checkpointStore ? checkpointStore.checkpointSteps(steps, keys) : steps;
+}
+
+// Shared token/spend accumulator, prices can be overridden in model-prices.json (or MODEL_PRICES)
+const prices = loadPriceTable(process.env.MODEL_PRICES ?? 'model-prices.json');
+export const costTracker = createCostTracker(prices);
+traceSinks.push(costTracker);
+printSummaryOnExit(costTracker);
+
+// Tool calls in order with their step, timing and result, printed on exit
+const toolTimeline = createToolTimeline();
+traceSinks.push(toolTimeline);
+printTimelineOnExit(toolTimeline);
+
+function readNumberEnv(name: string): number | undefined {
+	const raw = process.env[name];
+	if (!raw) {
+		return undefined;
+	}
+	const value = Number(raw);
+	if (Number.isNaN(value)) {
+		throw new Error(`Invalid ${name} "${raw}", expected a number`);
+	}
+	return value;
+}
+
+// Refuse further calls once the run has used this many tokens or dollars
+const budgetMaxTokens = readNumberEnv('BUDGET_MAX_TOKENS');
+const budgetMaxCost = readNumberEnv('BUDGET_MAX_COST');
+export const budget = budgetMaxTokens !== undefined || budgetMaxCost !== undefined
+	? createBudget({ maxTokens: budgetMaxTokens, maxCost: budgetMaxCost }, prices)
+	: undefined;
+
+// Answer from local rules instead of calling the providers, e.g. MOCK_MODELS=true npm run example 2
+const useMockModels = process.env.MOCK_MODELS === 'true';
+
+// Record/replay model calls, e.g. CASSETTE_MODE=replay npm run example 1
+const cassetteMode = (process.env.CASSETTE_MODE ?? 'passthrough') as CassetteMode;
+if (!CASSETTE_MODES.includes(cassetteMode)) {
+	throw new Error(`Invalid CASSETTE_MODE "${cassetteMode}", expected one of: ${CASSETTE_MODES.join(', ')}`);
+}
+
+// The current time for prompts that embed it, pinned while recording or replaying so the calls match the cassette
+const cassetteTime = cassetteMode !== 'passthrough' ? new Date(process.env.CASSETTE_TIME ?? DEFAULT_CASSETTE_TIME) : undefined;
+if (cassetteTime && Number.isNaN(cassetteTime.getTime())) {
+	throw new Error(`Invalid CASSETTE_TIME "${process.env.CASSETTE_TIME}", expected an ISO date, e.g. ${DEFAULT_CASSETTE_TIME}`);
+}
+
+export function getCurrentTime(): Date {
+	return cassetteTime ?? new Date();
+}
+
+// One cassette per example (EXAMPLE_NAME is set by scripts/run-example.mjs)
+const cassettePath = process.env.CASSETTE_PATH
+	?? `cassettes/${process.env.EXAMPLE_NAME ?? 'default'}.json`;
+
+// Opt-in response cache, e.g. MODEL_CACHE=true npm run example 1 (scripts/run-example.mjs turns it off for --no-cache)
+const cacheOptions = process.env.MODEL_CACHE === 'true'
+	? { dir: process.env.MODEL_CACHE_DIR ?? '.cache/model-responses', ttlMs: readNumberEnv('MODEL_CACHE_TTL_MS') }
+	: undefined;
+
+// Per-model limits on calls in flight, requests and tokens per minute
+const rateLimits = {
+	maxConcurrent: readNumberEnv('MODEL_MAX_CONCURRENCY'),
+	requestsPerMinute: readNumberEnv('MODEL_RPM'),
+	tokensPerMinute: readNumberEnv('MODEL_TPM'),
+};
+
+// Which model plays which role, from models.json (or MODELS_CONFIG) with overrides such as BASIC_MODEL=openai:gpt-4.1-mini
+const modelsConfig = loadModelsConfig(process.env.MODELS_CONFIG ?? 'models.json');
+const modelRoles = Object.values(resolveModelRoles(modelsConfig));
+
+// Provider models (or local mocks), rate limited and counting towards the shared budget
+const providerModels = Object.fromEntries(modelRoles.map(role => [
+	role.name,
+	withRateLimit(
+		withBudget(
+			useMockModels ? createMockModel(`mock-${role.name}`, exampleMockRules) : createProviderModel(role, modelsConfig.providers),
+			budget
+		),
+		rateLimits
+	)
+]));
+
+// Retry 429/5xx errors and timeouts with backoff, then fall back to the role's fallbacks (advanced falls back to basic)
+const resilience = {
+	maxRetries: readNumberEnv('MODEL_MAX_RETRIES') ?? 2,
+	timeoutMs: readNumberEnv('MODEL_TIMEOUT_MS'),
+};
+
+// Export wrapped models with progress indicators, one per role
+export const models: Record<string, LanguageModelV2> = Object.fromEntries(modelRoles.map(role => [
+	role.name,
+	withProgressIndicator(
+		withCache(
+			withCassette(
+				withResilience(providerModels[role.name], {
+					...resilience,
+					fallbacks: role.fallbacks.map(fallback => providerModels[fallback])
+				}),
+				cassettePath,
+				cassetteMode
+			),
+			cacheOptions
+		),
+		role.displayName,
+		true,
+		role.showProgress ? [progressSink, ...traceSinks] : traceSinks,
+		redactor
+	)
+]));
+
+// What the models of this run actually are, written to the run folder of --out (see example-output.ts)
+export const effectiveModelConfig = redactor({
+	roles: modelRoles,
+	providers: modelsConfig.providers,
+	mockModels: useMockModels,
+	cassette: { mode: cassetteMode, path: cassettePath },
+	cache: cacheOptions,
+	resilience,
+	rateLimits,
+	budget: { maxTokens: budgetMaxTokens, maxCost: budgetMaxCost }
+});
+
+export function getModel(role: string): LanguageModelV2 {
+	if (!(role in models)) {
+		throw new UnknownModelRoleError(role, Object.keys(models));
+	}
+	return models[role];
+}
+
+export const basicModel = getModel('basic');
+export const advancedModel = getModel('advanced');
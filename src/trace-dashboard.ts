@@ -0,0 +1,201 @@
+import {
+	TraceCompleteEvent,
+	TraceErrorEvent,
+	TraceEvent,
+	TraceSink,
+	formatTraceEvent,
+	getPromptPreview
+} from './trace-sinks';
+
+/**
+ * Live Terminal Dashboard
+ *
+ * A trace sink that redraws a table of the model calls in flight instead of printing a line
+ * per event, so the start/complete lines of parallel calls (e.g. example 3) do not interleave:
+ *
+ *   Model             #  Elapsed  Tokens  Tools         Status     Prompt
+ *   Claude-4.5-Haiku  7  3.4s     ~112    -             streaming  Analyze the stock AAPL...
+ *   Claude-4.5-Haiku  8  1.2s     -       -             queued     Analyze the stock MSFT...
+ *   ✅ [GPT-4.1-nano #6] Complete generating: 87→412 tokens in 2.10s | ...
+ *   Σ 6 done, 0 failed | 512→2385 tokens | 2 in flight
+ *
+ * Below the table is a rolling footer of the last completed calls and tool executions, and
+ * the run totals.
+ * Streamed tokens are estimated from the streamed characters (~4 per token) until the
+ * call completes. Once no calls are in flight the frame is left on screen, so output
+ * printed between calls is not overwritten.
+ *
+ * Only use it when stdout is a TTY - setup.ts falls back to the line-based `consoleSink`.
+ */
+
+const FOOTER_SIZE = 5;
+const REFRESH_MS = 250;
+
+interface CallRow {
+	model: string;
+	callId: number;
+	prompt: string;
+	startedAt: number;
+	status: string;
+	chars: number;
+	tools: string[];
+}
+
+function formatElapsed(ms: number): string {
+	return ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m${Math.floor(ms % 60_000 / 1000)}s`;
+}
+
+function formatTable(rows: string[][]): string[] {
+	const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+	return rows.map(row => row
+		.map((cell, column) => column === row.length - 1 ? cell : cell.padEnd(widths[column]))
+		.join('  '));
+}
+
+export function createDashboardSink(output: NodeJS.WriteStream = process.stdout): TraceSink {
+	const calls = new Map<string, CallRow>();
+	const completed: string[] = [];
+	const totals = { done: 0, failed: 0, inputTokens: 0, outputTokens: 0 };
+	let drawnLines = 0;
+	let timer: ReturnType<typeof setInterval> | undefined;
+
+	const getLines = (): string[] => {
+		const now = Date.now();
+		const table = calls.size > 0
+			? formatTable([
+				['Model', '#', 'Elapsed', 'Tokens', 'Tools', 'Status', 'Prompt'],
+				...Array.from(calls.values(), call => [
+					call.model,
+					String(call.callId),
+					formatElapsed(now - call.startedAt),
+					call.chars > 0 ? `~${Math.ceil(call.chars / 4)}` : '-',
+					call.tools.length > 0 ? call.tools.join(',') : '-',
+					call.status,
+					call.prompt
+				])
+			])
+			: [];
+
+		const summary = `Σ ${totals.done} done, ${totals.failed} failed | ${totals.inputTokens}→${totals.outputTokens} tokens | ${calls.size} in flight`;
+
+		// Keep every line within the terminal width, wrapped lines would break the redraw
+		const width = output.columns || 120;
+		return [...table, ...completed, summary].map(line => line.length > width ? line.slice(0, width - 1) : line);
+	};
+
+	const render = () => {
+		const lines = getLines();
+		// Move up to the first line of the previous frame and clear it
+		const moveUp = drawnLines > 0 ? `\x1b[${drawnLines}A` : '';
+		output.write(`${moveUp}\r\x1b[0J${lines.join('\n')}\n`);
+		drawnLines = lines.length;
+
+		if (calls.size === 0) {
+			// Leave the frame in place, the next call starts a new one below it
+			drawnLines = 0;
+			completed.length = 0;
+			clearInterval(timer);
+			timer = undefined;
+		} else {
+			// Refresh the elapsed times and token counts
+			timer ??= setInterval(render, REFRESH_MS).unref();
+		}
+	};
+
+	const addToFooter = (event: TraceEvent) => {
+		completed.push(formatTraceEvent(event) ?? '');
+		if (completed.length > FOOTER_SIZE) {
+			completed.shift();
+		}
+	};
+
+	const finish = (key: string, event: TraceCompleteEvent | TraceErrorEvent) => {
+		calls.delete(key);
+		if (event.type === 'complete') {
+			totals.done++;
+			totals.inputTokens += event.usage?.inputTokens ?? 0;
+			totals.outputTokens += event.usage?.outputTokens ?? 0;
+		} else {
+			totals.failed++;
+		}
+		addToFooter(event);
+	};
+
+	return {
+		write(event: TraceEvent) {
+			const key = `${event.model}#${event.callId}`;
+			const call = calls.get(key);
+
+			switch (event.type) {
+				case 'start': {
+					const preview = getPromptPreview(event.prompt);
+					calls.set(key, {
+						model: event.model,
+						callId: event.callId,
+						prompt: preview ? `${preview.text}${preview.truncated ? '...' : ''}` : '',
+						startedAt: event.timestamp,
+						status: event.mode,
+						chars: 0,
+						tools: []
+					});
+					break;
+				}
+				case 'delta':
+					if (call) {
+						call.chars += event.chars;
+					}
+					// Shown on the next refresh
+					return;
+				case 'queue':
+					if (call) {
+						call.status = event.phase === 'waiting' ? `queued (${event.queueDepth})` : event.mode;
+					}
+					break;
+				case 'cache-hit':
+					if (call) {
+						call.status = 'cached';
+					}
+					break;
+				case 'retry':
+					if (call) {
+						call.status = `retry ${event.retry}/${event.maxRetries}`;
+					}
+					break;
+				case 'fallback':
+					if (call) {
+						call.status = `→ ${event.toModelId}`;
+					}
+					break;
+				case 'reasoning':
+					if (call) {
+						call.status = event.phase === 'start' ? 'reasoning' : event.mode;
+					}
+					break;
+				case 'tool-call':
+					call?.tools.push(event.toolName);
+					break;
+				case 'tool-result':
+					break;
+				case 'tool-execution':
+					// Tools run between the model calls of a tool loop
+					addToFooter(event);
+					break;
+				case 'error':
+					// Error chunks from the model do not end the call
+					if (event.phase === 'stream') {
+						if (call) {
+							call.status = 'error';
+						}
+						break;
+					}
+					finish(key, event);
+					break;
+				case 'complete':
+					finish(key, event);
+					break;
+			}
+
+			render();
+		}
+	};
+}
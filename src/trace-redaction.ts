@@ -0,0 +1,160 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Trace Redaction
+ *
+ * `withProgressIndicator` passes every trace event through a redactor before any sink sees
+ * it, so secrets and personal data never reach the console, trace files or other sinks.
+ *
+ * A redactor applies a list of rules to all strings in an event (prompts, results, tool
+ * arguments and tool results). A rule can also redact values by their object key, e.g.
+ * `lat`/`lon` in a geocoding tool result. Built-in detectors: apiKey, email, phone,
+ * coordinates. Which detectors are used, and any custom patterns, can be set in a JSON file
+ * (see REDACTION_CONFIG in setup.ts):
+ *
+ *   {
+ *     "detectors": ["apiKey", "email", "phone"],
+ *     "patterns": [{ "name": "ticket", "pattern": "TICKET-\\d+", "flags": "g" }]
+ *   }
+ */
+
+export interface RedactionRule {
+	name: string;
+	// Replaced in every string, must have the global flag
+	pattern?: RegExp;
+	// Defaults to [REDACTED:<name>]
+	replacement?: string;
+	// Replaces the whole value of object properties with a matching key
+	keys?: RegExp;
+}
+
+export type Redactor = <T>(value: T) => T;
+
+export type DetectorName = 'apiKey' | 'email' | 'phone' | 'coordinates';
+
+export const BUILT_IN_DETECTORS: Record<DetectorName, RedactionRule[]> = {
+	apiKey: [
+		{
+			name: 'apiKey',
+			pattern: /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{16,}|AIza[0-9A-Za-z_-]{35}|(?:ghp|gho|github_pat)_[A-Za-z0-9_]{20,}|xox[abpr]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16})\b/g
+		},
+		{
+			name: 'apiKey',
+			pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/-]{16,}=*/g,
+			replacement: '$1[REDACTED:apiKey]'
+		},
+		{
+			name: 'apiKey',
+			keys: /^(?:api[-_]?key|authorization|x-api-key|password|secret|token)$/i
+		}
+	],
+	email: [
+		{
+			name: 'email',
+			pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+		}
+	],
+	phone: [
+		{
+			// Requires a separator after the area code, so plain numbers and dates are left alone
+			name: 'phone',
+			pattern: /(?<![\w.])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]\d{3,4}[\s.-]?\d{3,4}(?![\w.])/g
+		}
+	],
+	coordinates: [
+		{
+			// "48.8566, 2.3522"
+			name: 'coordinates',
+			pattern: /-?\d{1,2}\.\d{3,},\s*-?\d{1,3}\.\d{3,}/g
+		},
+		{
+			// latitude=48.85 in URLs, "lat": 48.85 in JSON text
+			name: 'coordinates',
+			pattern: /\b(lat|lon|lng|latitude|longitude)(["']?\s*[:=]\s*)-?\d+(?:\.\d+)?/gi,
+			replacement: '$1$2[REDACTED:coordinates]'
+		},
+		{
+			name: 'coordinates',
+			keys: /^(?:lat|lon|lng|latitude|longitude)$/i
+		}
+	]
+};
+
+const DETECTOR_NAMES = Object.keys(BUILT_IN_DETECTORS) as DetectorName[];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (value === null || typeof value !== 'object') {
+		return false;
+	}
+	const proto = Object.getPrototypeOf(value) as unknown;
+	return proto === Object.prototype || proto === null;
+}
+
+export function createRedactor(rules: RedactionRule[]): Redactor {
+	const textRules = rules.flatMap(({ name, pattern, replacement }) =>
+		pattern ? [{ pattern, replacement: replacement ?? `[REDACTED:${name}]` }] : []
+	);
+	const keyRules = rules.flatMap(({ name, keys }) => keys ? [{ name, keys }] : []);
+
+	const redactText = (text: string) => textRules.reduce(
+		(result, { pattern, replacement }) => result.replace(pattern, replacement),
+		text
+	);
+
+	const redact = (value: unknown): unknown => {
+		if (typeof value === 'string') {
+			return redactText(value);
+		}
+		if (Array.isArray(value)) {
+			return value.map(redact);
+		}
+		if (isPlainObject(value)) {
+			return Object.fromEntries(Object.entries(value).map(([key, entry]) => {
+				const keyRule = keyRules.find(rule => rule.keys.test(key));
+				if (keyRule && (typeof entry === 'string' || typeof entry === 'number')) {
+					return [key, `[REDACTED:${keyRule.name}]`];
+				}
+				return [key, redact(entry)];
+			}));
+		}
+		return value;
+	};
+
+	return <T>(value: T) => redact(value) as T;
+}
+
+export const defaultRedactor = createRedactor(DETECTOR_NAMES.flatMap(name => BUILT_IN_DETECTORS[name]));
+
+interface RedactionConfig {
+	detectors?: DetectorName[];
+	patterns?: { name: string; pattern: string; flags?: string; replacement?: string }[];
+}
+
+// Rules from a JSON config file, all built-in detectors if the file does not exist
+export function loadRedactionRules(path: string): RedactionRule[] {
+	let config: RedactionConfig;
+	try {
+		config = JSON.parse(readFileSync(path, 'utf-8')) as RedactionConfig;
+	} catch (error) {
+		if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+			return DETECTOR_NAMES.flatMap(name => BUILT_IN_DETECTORS[name]);
+		}
+		throw error;
+	}
+
+	const detectors = config.detectors ?? DETECTOR_NAMES;
+	const unknown = detectors.filter(name => !DETECTOR_NAMES.includes(name));
+	if (unknown.length > 0) {
+		throw new Error(`Unknown redaction detectors in ${path}: ${unknown.join(', ')} (expected: ${DETECTOR_NAMES.join(', ')})`);
+	}
+
+	return [
+		...detectors.flatMap(name => BUILT_IN_DETECTORS[name]),
+		...(config.patterns ?? []).map(({ name, pattern, flags, replacement }) => ({
+			name,
+			// Replace all occurrences, even if the config omits the g flag
+			pattern: new RegExp(pattern, flags?.includes('g') ? flags : `${flags ?? ''}g`),
+			replacement
+		}))
+	];
+}
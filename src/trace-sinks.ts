@@ -0,0 +1,379 @@
+import fs from 'fs';
+import { dirname } from 'path';
+import {
+	LanguageModelV2Prompt,
+	LanguageModelV2Usage
+} from '@ai-sdk/provider';
+
+/**
+ * Trace Events and Sinks
+ *
+ * `withProgressIndicator` reports every model call as a sequence of structured events
+ * (start, cache-hit, queue, delta, tool-call, tool-result, tool-execution, reasoning, retry, fallback,
+ * error, complete) and hands them to one or more sinks. Events carry the full prompt and result - truncation is up
+ * to the sink.
+ *
+ * Built-in sinks:
+ * - `consoleSink`: the human-readable progress lines (the default)
+ * - `createDashboardSink()`: a live table of the calls in flight, for terminals - see trace-dashboard.ts
+ * - `createJsonlSink(path)`: appends one JSON event per line, for diffing runs or notebooks
+ * - `createMemorySink()`: collects events in an array, for tests
+ *
+ * Usage - see setup.ts
+ */
+
+export type CallMode = 'generating' | 'streaming';
+
+interface TraceEventBase {
+	// Display name and provider model id
+	model: string;
+	modelId: string;
+	callId: number;
+	mode: CallMode;
+	// Milliseconds since epoch
+	timestamp: number;
+}
+
+export interface TraceStartEvent extends TraceEventBase {
+	type: 'start';
+	activeCalls: number;
+	prompt: LanguageModelV2Prompt;
+}
+
+export interface TraceCacheHitEvent extends TraceEventBase {
+	type: 'cache-hit';
+	key: string;
+	// Age of the cached response
+	ageMs: number;
+}
+
+export interface TraceQueueEvent extends TraceEventBase {
+	type: 'queue';
+	// waiting: the call is held back by a rate limit, released: the call may start
+	phase: 'waiting' | 'released';
+	// Calls still waiting for the same model
+	queueDepth: number;
+	waitMs: number;
+}
+
+// Streamed output, for live progress - not written by the line and JSONL sinks
+export interface TraceDeltaEvent extends TraceEventBase {
+	type: 'delta';
+	// Characters of text, reasoning or tool input received
+	chars: number;
+}
+
+export interface TraceToolCallEvent extends TraceEventBase {
+	type: 'tool-call';
+	toolName: string;
+	toolCallId: string | undefined;
+	input: string;
+	// 1-based step of the multi-step tool loop that made the call
+	step: number;
+}
+
+export interface TraceToolResultEvent extends TraceEventBase {
+	type: 'tool-result';
+	toolName: string;
+	toolCallId: string | undefined;
+	result: unknown;
+}
+
+// A tool wrapped with withToolTiming ran, reported into the model call that requested it
+export interface TraceToolExecutionEvent extends TraceEventBase {
+	type: 'tool-execution';
+	toolName: string;
+	toolCallId: string;
+	step: number;
+	// Milliseconds since epoch
+	startTime: number;
+	durationMs: number;
+	result?: unknown;
+	error?: string;
+}
+
+export interface TraceReasoningEvent extends TraceEventBase {
+	type: 'reasoning';
+	phase: 'start' | 'end';
+	text: string;
+}
+
+export interface TraceRetryEvent extends TraceEventBase {
+	type: 'retry';
+	// 1-based number of the upcoming retry
+	retry: number;
+	maxRetries: number;
+	delayMs: number;
+	message: string;
+}
+
+export interface TraceFallbackEvent extends TraceEventBase {
+	type: 'fallback';
+	fromModelId: string;
+	toModelId: string;
+	message: string;
+}
+
+export interface TraceErrorEvent extends TraceEventBase {
+	type: 'error';
+	// call: the call failed, stream: error chunk from the model,
+	// chunk: a chunk could not be processed, incomplete: stream ended without finish
+	phase: 'call' | 'stream' | 'chunk' | 'incomplete';
+	message: string;
+	chunkType?: string;
+	durationMs: number;
+	activeCalls: number;
+}
+
+export interface TraceCompleteEvent extends TraceEventBase {
+	type: 'complete';
+	durationMs: number;
+	activeCalls: number;
+	usage: LanguageModelV2Usage | undefined;
+	finishReason: string | undefined;
+	text: string;
+	// Served from the response cache (set by withProgressIndicator after a cache-hit event)
+	cached?: boolean;
+}
+
+export type TraceEvent =
+	| TraceStartEvent
+	| TraceCacheHitEvent
+	| TraceQueueEvent
+	| TraceDeltaEvent
+	| TraceToolCallEvent
+	| TraceToolResultEvent
+	| TraceToolExecutionEvent
+	| TraceReasoningEvent
+	| TraceRetryEvent
+	| TraceFallbackEvent
+	| TraceErrorEvent
+	| TraceCompleteEvent;
+
+// Event fields without the ones the wrapper fills in (distributive, so each type keeps its own fields)
+export type TraceEventFields<T = TraceEvent> = T extends TraceEvent
+	? Omit<T, 'model' | 'modelId' | 'callId' | 'mode' | 'timestamp'>
+	: never;
+
+export interface TraceSink {
+	write(event: TraceEvent): void;
+}
+
+const PREVIEW_LIMIT = 40;
+const TOOL_RESULT_PREVIEW_LIMIT = 100;
+
+// Helper function to format tool results
+export function formatToolResult(result: unknown): string {
+	try {
+		const resultStr = typeof result === 'string'
+			? result
+			: JSON.stringify(result);
+		return resultStr.length > TOOL_RESULT_PREVIEW_LIMIT
+			? resultStr.substring(0, TOOL_RESULT_PREVIEW_LIMIT) + '...'
+			: resultStr;
+	} catch {
+		return '[stringify error]';
+	}
+}
+
+function truncate(text: string): string {
+	const preview = text.trim().replace(/\s+/g, ' ');
+	return preview.length > PREVIEW_LIMIT ? `${preview.slice(0, PREVIEW_LIMIT)}...` : preview;
+}
+
+// Helper function for completion logging
+function formatCompletion(event: TraceCompleteEvent): string {
+	const duration = (event.durationMs / 1000).toFixed(2);
+
+	// Show input/output tokens for better visibility
+	const inputTokens = event.usage?.inputTokens ?? 0;
+	const outputTokens = event.usage?.outputTokens ?? 0;
+
+	const tokenInfo = inputTokens > 0
+		? `${inputTokens}→${outputTokens} tokens`
+		: `${outputTokens} tokens`;
+
+	const resultSuffix = event.text
+		? ` | result: "${truncate(event.text).replace(/"/g, '\\"')}"`
+		: '';
+
+	const finishInfo = event.finishReason ? ` | reason: ${event.finishReason}` : '';
+	const cacheInfo = event.cached ? ' | 💾 cached' : '';
+
+	return `✅ Complete ${event.mode}: ${tokenInfo} in ${duration}s | active: ${event.activeCalls}${finishInfo}${cacheInfo}${resultSuffix}`;
+}
+
+export interface PromptPreview {
+	text: string;
+	truncated: boolean;
+}
+
+export function getPromptPreview(prompt: LanguageModelV2Prompt): PromptPreview | undefined {
+	let preview = '';
+	let truncated = false;
+
+	const appendText = (text: string) => {
+		if (preview.length >= PREVIEW_LIMIT) {
+			truncated = true;
+			return;
+		}
+
+		const sanitized = text.replace(/\s+/g, ' ').trim();
+		if (!sanitized) {
+			return;
+		}
+
+		const segment = preview.length > 0 ? ` ${sanitized}` : sanitized;
+		const remaining = PREVIEW_LIMIT - preview.length;
+		if (segment.length > remaining) {
+			truncated = true;
+		}
+
+		preview += segment.slice(0, remaining);
+	};
+
+	for (const message of prompt) {
+		if (preview.length >= PREVIEW_LIMIT) {
+			truncated = true;
+			break;
+		}
+
+		if (message.role === 'system') {
+			appendText(message.content);
+			continue;
+		}
+
+		for (const part of message.content) {
+			if (preview.length >= PREVIEW_LIMIT) {
+				truncated = true;
+				break;
+			}
+
+			if (part.type === 'text') {
+				appendText(part.text);
+			}
+		}
+	}
+
+	if (!preview) {
+		return undefined;
+	}
+
+	return {
+		text: preview,
+		truncated
+	};
+}
+
+function formatPromptSuffix(preview: PromptPreview | undefined) {
+	if (!preview) {
+		return '';
+	}
+
+	const escaped = preview.text.replace(/"/g, '\\"');
+	const display = preview.truncated ? `${escaped}...` : escaped;
+
+	return ` | prompt: "${display}"`;
+}
+
+function formatAge(ms: number): string {
+	if (ms < 60_000) {
+		return `${(ms / 1000).toFixed(0)}s`;
+	}
+	if (ms < 3_600_000) {
+		return `${(ms / 60_000).toFixed(0)}m`;
+	}
+	return `${(ms / 3_600_000).toFixed(1)}h`;
+}
+
+function formatError(event: TraceErrorEvent): string {
+	switch (event.phase) {
+		case 'stream':
+			return `❌ Model error: ${event.message}`;
+		case 'chunk':
+			return `⚠️  Error processing chunk (${event.chunkType}): ${event.message}`;
+		case 'incomplete':
+			return `⚠️  Stream ended without finish chunk | active: ${event.activeCalls}`;
+		case 'call':
+			return `❌ Failed ${event.mode} in ${(event.durationMs / 1000).toFixed(2)}s: ${event.message} | active: ${event.activeCalls}`;
+	}
+}
+
+// Format an event as a single progress line (without the trailing newline), undefined for delta events
+export function formatTraceEvent(event: TraceEvent): string | undefined {
+	const prefix = `[${event.model} #${event.callId}]`;
+
+	switch (event.type) {
+		case 'start':
+			return `${prefix} 🚩 Start ${event.mode}${formatPromptSuffix(getPromptPreview(event.prompt))} | active: ${event.activeCalls}`;
+		case 'cache-hit':
+			return `${prefix} 💾 Cache hit ${event.key.slice(0, 8)} | age: ${formatAge(event.ageMs)}`;
+		case 'queue':
+			return event.phase === 'waiting'
+				? `${prefix} ⏳ Queued | queue: ${event.queueDepth}`
+				: `${prefix} ▶️  Released after ${(event.waitMs / 1000).toFixed(2)}s | queue: ${event.queueDepth}`;
+		case 'delta':
+			return undefined;
+		case 'tool-call':
+			return `${prefix} 🔧 ${event.toolName}(${event.input})`;
+		case 'tool-result':
+			return `${prefix} 📥 ${event.toolName} → ${formatToolResult(event.result)}`;
+		case 'tool-execution':
+			return event.error === undefined
+				? `${prefix} ⏱️  ${event.toolName} ran in ${(event.durationMs / 1000).toFixed(2)}s (step ${event.step})`
+				: `${prefix} ❌ ${event.toolName} failed after ${(event.durationMs / 1000).toFixed(2)}s (step ${event.step}): ${event.error}`;
+		case 'reasoning':
+			return event.phase === 'start'
+				? `${prefix} 🧠 Reasoning...`
+				: `${prefix} 🧠 Reasoning complete: "${truncate(event.text)}"`;
+		case 'retry':
+			return `${prefix} 🔁 Retry ${event.retry}/${event.maxRetries} of ${event.modelId} in ${(event.delayMs / 1000).toFixed(2)}s: ${event.message}`;
+		case 'fallback':
+			return `${prefix} ↪️  Falling back from ${event.fromModelId} to ${event.toModelId}: ${event.message}`;
+		case 'error':
+			return `${prefix} ${formatError(event)}`;
+		case 'complete':
+			return `${prefix} ${formatCompletion(event)}`;
+	}
+}
+
+// Human-readable progress lines on stdout
+export const consoleSink: TraceSink = {
+	write(event) {
+		const line = formatTraceEvent(event);
+		if (line !== undefined) {
+			process.stdout.write(`${line}\n`);
+		}
+	}
+};
+
+// One JSON event per line, appended to the file
+export function createJsonlSink(path: string): TraceSink {
+	fs.mkdirSync(dirname(path), { recursive: true });
+
+	return {
+		write(event) {
+			if (event.type === 'delta') {
+				return;
+			}
+			// Written synchronously, so no lines are lost when the process exits
+			fs.appendFileSync(path, `${JSON.stringify(event)}\n`);
+		}
+	};
+}
+
+export interface MemorySink extends TraceSink {
+	events: TraceEvent[];
+}
+
+// Collects events in memory, e.g. for assertions in tests
+export function createMemorySink(): MemorySink {
+	const events: TraceEvent[] = [];
+
+	return {
+		events,
+		write(event) {
+			events.push(event);
+		}
+	};
+}
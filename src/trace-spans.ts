@@ -0,0 +1,348 @@
+import fs from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { TraceEvent, TraceSink, getPromptPreview } from './trace-sinks';
+import { Redactor } from './trace-redaction';
+
+/**
+ * Hierarchical Span Tracing
+ *
+ * Links model calls to the Script step that made them:
+ *
+ *   run 3-parallelization
+ *   ├─ marketIdentifier
+ *   │  └─ Claude-4.5-Haiku generating #1
+ *   ├─ stockFinder {"marketName":"Renewable energy",...}
+ *   │  └─ Claude-4.5-Haiku generating #2
+ *   └─ stockFinder {"marketName":"Semiconductors",...}
+ *      └─ Claude-4.5-Haiku generating #3
+ *
+ * - A root span per example run
+ * - A child span per step invocation: generators, templates, JS helpers and tools passed
+ *   through `traceSteps` / `traceStep` (usually a Script context or a generator's tools)
+ * - A model-call span per call, nested under the step that made it - the recorder is a
+ *   trace sink, so pass it to `withProgressIndicator` with the other sinks
+ *
+ * The current step is tracked with AsyncLocalStorage, so parallel loop iterations in a
+ * Script each get their own span. The spans are exported as OTLP JSON (the OpenTelemetry
+ * protocol's JSON encoding), which Jaeger and other OpenTelemetry viewers can open.
+ *
+ * Usage - see setup.ts (TRACE_SPANS_FILE)
+ */
+
+type AttributeValue = string | number | boolean;
+
+export interface SpanEvent {
+	name: string;
+	time: number;
+	attributes: Record<string, AttributeValue>;
+}
+
+export interface Span {
+	spanId: string;
+	parentSpanId: string | undefined;
+	name: string;
+	// Milliseconds since epoch
+	startTime: number;
+	endTime: number | undefined;
+	attributes: Record<string, AttributeValue>;
+	events: SpanEvent[];
+	status: { code: 'ok' | 'error'; message?: string } | undefined;
+}
+
+export interface SpanRecorder extends TraceSink {
+	traceId: string;
+	root: Span;
+	spans: Span[];
+	// Wrap a function or tool so each invocation gets its own span
+	traceStep<T>(name: string, step: T): T;
+	// Wrap every function and tool in a Script context or tool set, named after its key
+	traceSteps<T extends Record<string, unknown>>(steps: T): T;
+	// Ends the root span (and any spans still open) and returns the OTLP JSON document
+	exportOtlp(): unknown;
+}
+
+const INPUT_PREVIEW_LIMIT = 200;
+const NAME_PREVIEW_LIMIT = 60;
+
+const currentSpan = new AsyncLocalStorage<Span>();
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (value === null || typeof value !== 'object') {
+		return false;
+	}
+	const proto = Object.getPrototypeOf(value) as unknown;
+	return proto === Object.prototype || proto === null;
+}
+
+function hasExecute(value: unknown): value is { execute: (...args: unknown[]) => unknown } {
+	return (typeof value === 'object' || typeof value === 'function') &&
+		value !== null &&
+		'execute' in value &&
+		typeof value.execute === 'function';
+}
+
+function getInputPreview(args: unknown[]): string | undefined {
+	if (args.length === 0) {
+		return undefined;
+	}
+	try {
+		const json = JSON.stringify(args.length === 1 ? args[0] : args) as string | undefined;
+		if (json === undefined) {
+			return undefined;
+		}
+		return json.length > INPUT_PREVIEW_LIMIT ? `${json.slice(0, INPUT_PREVIEW_LIMIT)}...` : json;
+	} catch {
+		return '[stringify error]';
+	}
+}
+
+function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+// OTLP timestamps are nanoseconds since epoch, as strings
+function toUnixNano(ms: number): string {
+	return `${Math.round(ms)}000000`;
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+	return Object.entries(attributes).map(([key, value]) => ({
+		key,
+		value: typeof value === 'string'
+			? { stringValue: value }
+			: typeof value === 'boolean'
+				? { boolValue: value }
+				: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+	}));
+}
+
+export function createSpanRecorder(runName: string, redact: Redactor = value => value): SpanRecorder {
+	const traceId = randomBytes(16).toString('hex');
+	const spans: Span[] = [];
+	const modelCalls = new Map<string, Span>();
+
+	const startSpan = (name: string, attributes: Record<string, AttributeValue>, parent: Span | undefined, startTime = Date.now()): Span => {
+		const span: Span = {
+			spanId: randomBytes(8).toString('hex'),
+			parentSpanId: parent?.spanId,
+			name,
+			startTime,
+			endTime: undefined,
+			attributes,
+			events: [],
+			status: undefined
+		};
+		spans.push(span);
+		return span;
+	};
+
+	const endSpan = (span: Span, error?: unknown, endTime = Date.now()) => {
+		span.endTime = endTime;
+		span.status = error === undefined ? { code: 'ok' } : { code: 'error', message: redact(getErrorMessage(error)) };
+	};
+
+	const root = startSpan(`run ${runName}`, { 'run.name': runName }, undefined);
+
+	// inputArgs: how many arguments to show as the step input (tools also get the SDK's call options)
+	const traceFunction = <F extends (...args: unknown[]) => unknown>(name: string, fn: F, inputArgs?: number): F => {
+		const traced = function (this: unknown, ...args: unknown[]) {
+			const input = getInputPreview(args.slice(0, inputArgs));
+			const redacted = input === undefined ? undefined : redact(input);
+			// The input in the name tells parallel invocations of a step apart in a viewer
+			const span = startSpan(
+				redacted ? `${name} ${redacted.slice(0, NAME_PREVIEW_LIMIT)}${redacted.length > NAME_PREVIEW_LIMIT ? '...' : ''}` : name,
+				{ 'step.name': name, ...(redacted ? { 'step.input': redacted } : {}) },
+				currentSpan.getStore() ?? root
+			);
+
+			let result: unknown;
+			try {
+				result = currentSpan.run(span, () => fn.apply(this, args));
+			} catch (error) {
+				endSpan(span, error);
+				throw error;
+			}
+
+			if (result instanceof Promise) {
+				return result.then(
+					value => {
+						endSpan(span);
+						return value as unknown;
+					},
+					(error: unknown) => {
+						endSpan(span, error);
+						throw error;
+					}
+				);
+			}
+			endSpan(span);
+			return result;
+		};
+		// Keep properties the caller may rely on (e.g. generator config)
+		return Object.assign(traced, fn);
+	};
+
+	const traceStep = <T>(name: string, step: T): T => {
+		if (hasExecute(step)) {
+			// A tool - trace its execution
+			const tool = Object.assign(Object.create(Object.getPrototypeOf(step) as object) as object, step);
+			return Object.assign(tool, { execute: traceFunction(name, step.execute, 1) });
+		}
+		if (typeof step === 'function') {
+			return traceFunction(name, step as (...args: unknown[]) => unknown) as T;
+		}
+		if (isPlainObject(step)) {
+			// Nested steps, e.g. a map of handlers
+			return Object.fromEntries(
+				Object.entries(step).map(([key, value]) => [key, traceStep(`${name}.${key}`, value)])
+			) as T;
+		}
+		return step;
+	};
+
+	const traceSteps = <T extends Record<string, unknown>>(steps: T): T => Object.fromEntries(
+		Object.entries(steps).map(([key, value]) => [key, traceStep(key, value)])
+	) as T;
+
+	const getModelCall = (event: TraceEvent) => modelCalls.get(`${event.model}#${event.callId}`);
+
+	const addEvent = (event: TraceEvent, name: string, attributes: Record<string, AttributeValue> = {}) => {
+		getModelCall(event)?.events.push({ name, time: event.timestamp, attributes });
+	};
+
+	const endModelCall = (event: TraceEvent, error?: string) => {
+		const span = getModelCall(event);
+		if (span) {
+			modelCalls.delete(`${event.model}#${event.callId}`);
+			endSpan(span, error, event.timestamp);
+		}
+	};
+
+	return {
+		traceId,
+		root,
+		spans,
+		traceStep,
+		traceSteps,
+
+		// Events arrive already redacted by withProgressIndicator
+		write(event) {
+			switch (event.type) {
+				case 'start': {
+					// Written synchronously from the calling step, so its span is the current one
+					const preview = getPromptPreview(event.prompt);
+					const span = startSpan(`${event.model} ${event.mode} #${event.callId}`, {
+						'gen_ai.request.model': event.modelId,
+						'model.name': event.model,
+						'model.call_id': event.callId,
+						'model.mode': event.mode,
+						...(preview ? { 'model.prompt_preview': preview.text } : {})
+					}, currentSpan.getStore() ?? root, event.timestamp);
+					modelCalls.set(`${event.model}#${event.callId}`, span);
+					break;
+				}
+				case 'delta':
+					break;
+				case 'cache-hit':
+					addEvent(event, 'cache-hit', { 'cache.key': event.key, 'cache.age_ms': event.ageMs });
+					break;
+				case 'queue':
+					addEvent(event, `queue ${event.phase}`, { 'queue.depth': event.queueDepth, 'queue.wait_ms': event.waitMs });
+					break;
+				case 'tool-call':
+					addEvent(event, 'tool-call', { 'tool.name': event.toolName, 'tool.input': event.input });
+					break;
+				case 'tool-result':
+					addEvent(event, 'tool-result', { 'tool.name': event.toolName });
+					break;
+				case 'tool-execution':
+					// Runs after the model call has ended, tools passed through traceSteps get their own span
+					break;
+				case 'reasoning':
+					addEvent(event, `reasoning ${event.phase}`);
+					break;
+				case 'retry':
+					addEvent(event, 'retry', { 'retry.number': event.retry, 'retry.delay_ms': event.delayMs, 'error.message': event.message });
+					break;
+				case 'fallback': {
+					addEvent(event, 'fallback', { 'fallback.from': event.fromModelId, 'fallback.to': event.toModelId });
+					const span = getModelCall(event);
+					if (span) {
+						span.attributes['gen_ai.request.model'] = event.toModelId;
+					}
+					break;
+				}
+				case 'error':
+					if (event.phase === 'stream') {
+						addEvent(event, 'error', { 'error.message': event.message });
+					} else {
+						endModelCall(event, event.message);
+					}
+					break;
+				case 'complete': {
+					const span = getModelCall(event);
+					if (span) {
+						Object.assign(span.attributes, {
+							'gen_ai.usage.input_tokens': event.usage?.inputTokens ?? 0,
+							'gen_ai.usage.output_tokens': event.usage?.outputTokens ?? 0,
+							...(event.finishReason ? { 'gen_ai.response.finish_reason': event.finishReason } : {}),
+							...(event.cached ? { 'cache.hit': true } : {})
+						});
+					}
+					endModelCall(event);
+					break;
+				}
+			}
+		},
+
+		exportOtlp() {
+			const now = Date.now();
+			if (root.endTime === undefined) {
+				endSpan(root, undefined, now);
+			}
+			for (const span of spans) {
+				span.endTime ??= now;
+			}
+
+			return {
+				resourceSpans: [{
+					resource: {
+						attributes: toOtlpAttributes({ 'service.name': 'casai-examples' })
+					},
+					scopeSpans: [{
+						scope: { name: 'casai-examples' },
+						spans: spans.map(span => ({
+							traceId,
+							spanId: span.spanId,
+							...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+							name: span.name,
+							// SPAN_KIND_INTERNAL
+							kind: 1,
+							startTimeUnixNano: toUnixNano(span.startTime),
+							endTimeUnixNano: toUnixNano(span.endTime ?? now),
+							attributes: toOtlpAttributes(span.attributes),
+							events: span.events.map(event => ({
+								name: event.name,
+								timeUnixNano: toUnixNano(event.time),
+								attributes: toOtlpAttributes(event.attributes)
+							})),
+							// STATUS_CODE_UNSET / OK / ERROR
+							status: span.status?.code === 'error'
+								? { code: 2, message: span.status.message }
+								: { code: span.status ? 1 : 0 }
+						}))
+					}]
+				}]
+			};
+		}
+	};
+}
+
+export function writeSpansOnExit(recorder: SpanRecorder, path: string) {
+	process.once('exit', () => {
+		fs.mkdirSync(dirname(path), { recursive: true });
+		fs.writeFileSync(path, JSON.stringify(recorder.exportOtlp(), null, '\t') + '\n', 'utf-8');
+	});
+}
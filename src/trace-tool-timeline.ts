@@ -0,0 +1,117 @@
+import { TraceEvent, TraceSink, formatToolResult } from './trace-sinks';
+
+/**
+ * Tool-Call Timeline
+ *
+ * A trace sink that collects a record per tool call - requested by which model call and in
+ * which step of the multi-step tool loop, with its arguments, execution time and result or
+ * error - and prints them in order once the run exits:
+ *
+ *   🧰 Tool timeline
+ *      +0.00s  step 1  [GPT-4.1-nano #1]  geocodeTool({"location":"Paris"}) 0.42s → {"lat":...
+ *      +1.31s  step 2  [GPT-4.1-nano #2]  timeInterpreterTool({"query":"tomorrow",...}) 1.20s → ...
+ *      +3.05s  step 3  [GPT-4.1-nano #3]  weatherFetchTool({"lat":...}) ❌ failed after 0.10s: ...
+ *      geocodeTool → timeInterpreterTool → weatherFetchTool
+ *
+ * Execution times, results and errors are only known for tools wrapped with `withToolTiming`, in
+ * generators run with `withToolCallScope` (see model-logging.ts), the others show up as requested.
+ *
+ * Usage - see setup.ts and 5-tool/index.ts
+ */
+
+export interface ToolCallRecord {
+	// Model call that requested the tool
+	model: string;
+	callId: number;
+	step: number;
+	toolName: string;
+	toolCallId: string | undefined;
+	input: string;
+	// Milliseconds since epoch
+	requestedAt: number;
+	startTime?: number;
+	endTime?: number;
+	result?: unknown;
+	error?: string;
+}
+
+export interface ToolTimeline extends TraceSink {
+	records: ToolCallRecord[];
+	formatTimeline(): string;
+}
+
+const INPUT_PREVIEW_LIMIT = 60;
+
+function truncate(text: string): string {
+	return text.length > INPUT_PREVIEW_LIMIT ? `${text.slice(0, INPUT_PREVIEW_LIMIT)}...` : text;
+}
+
+function formatOutcome(record: ToolCallRecord): string {
+	if (record.startTime === undefined || record.endTime === undefined) {
+		return '(not timed)';
+	}
+	const duration = `${((record.endTime - record.startTime) / 1000).toFixed(2)}s`;
+	return record.error === undefined
+		? `${duration} → ${formatToolResult(record.result)}`
+		: `❌ failed after ${duration}: ${record.error}`;
+}
+
+export function createToolTimeline(): ToolTimeline {
+	const records: ToolCallRecord[] = [];
+
+	return {
+		records,
+
+		write(event: TraceEvent) {
+			if (event.type === 'tool-call') {
+				records.push({
+					model: event.model,
+					callId: event.callId,
+					step: event.step,
+					toolName: event.toolName,
+					toolCallId: event.toolCallId,
+					input: event.input,
+					requestedAt: event.timestamp
+				});
+			} else if (event.type === 'tool-execution') {
+				// Tool call ids are only unique within one model call
+				const record = records.find(entry =>
+					entry.toolCallId === event.toolCallId &&
+					entry.model === event.model &&
+					entry.callId === event.callId &&
+					entry.step === event.step
+				);
+				if (record) {
+					record.startTime = event.startTime;
+					record.endTime = event.startTime + event.durationMs;
+					record.result = event.result;
+					record.error = event.error;
+				}
+			}
+		},
+
+		formatTimeline() {
+			const ordered = [...records].sort((a, b) => (a.startTime ?? a.requestedAt) - (b.startTime ?? b.requestedAt));
+			const firstTime = ordered.length > 0 ? ordered[0].startTime ?? ordered[0].requestedAt : 0;
+
+			const lines = ordered.map(record => {
+				const offset = `+${(((record.startTime ?? record.requestedAt) - firstTime) / 1000).toFixed(2)}s`;
+				return `   ${offset}  step ${record.step}  [${record.model} #${record.callId}]  ${record.toolName}(${truncate(record.input)}) ${formatOutcome(record)}`;
+			});
+
+			return [
+				'🧰 Tool timeline',
+				...lines,
+				`   ${ordered.map(record => record.toolName).join(' → ')}`
+			].join('\n');
+		}
+	};
+}
+
+export function printTimelineOnExit(timeline: ToolTimeline) {
+	process.once('exit', () => {
+		if (timeline.records.length > 0) {
+			process.stdout.write(`\n${timeline.formatTimeline()}\n`);
+		}
+	});
+}
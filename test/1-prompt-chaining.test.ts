@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import { z } from 'zod';
+import { createCheckpointStore } from '../src/example-checkpoints';
+import { runBatch } from '../src/example-batch';
+import { createMockModel } from '../src/model-mock';
+import { exampleMockRules } from '../src/mock-rules';
+import { createArticleAgent } from '../src/1-prompt-chaining/workflow';
+import { matchSnapshot, runExample } from './example-harness';
+
+const ArticleSchema = z.object({
+	title: z.string().min(1),
+	article: z.string().min(1),
+	outline: z.string().min(1),
+	facts: z.string().min(1)
+});
+
+// The mock basic model, recording the prompts it answers and failing the prompts that contain `failOn`
+function createRecordingModel(prompts: string[], failOn?: string) {
+	return createMockModel('mock-basic', exampleMockRules.map(rule => ({
+		match: rule.match,
+		reply: (prompt: string) => {
+			prompts.push(prompt);
+			if (failOn !== undefined && prompt.includes(failOn)) {
+				throw new Error('The model is unavailable');
+			}
+			return typeof rule.reply === 'function' ? rule.reply(prompt) : rule.reply;
+		}
+	})));
+}
+
+const result = await runExample('1-prompt-chaining');
+
+await test('returns the title, article, outline and facts', () => {
+	ArticleSchema.parse(result);
+});
+
+await test('passes each step\'s output on to the next step', () => {
+	const { title, article } = ArticleSchema.parse(result);
+	assert.equal(title, 'A Mock Title for a Mock Article');
+	assert.equal(article, 'This is a mock article that follows the outline section by section.');
+});
+
+await test('matches the snapshot', async () => {
+	await matchSnapshot('1-prompt-chaining', result);
+});
+
+await test('resumes a failed run from the writer step', async () => {
+	const dir = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+	try {
+		const failedRun = createCheckpointStore({ dir, runId: 'run-1' });
+		const failingAgent = createArticleAgent({ basic: createRecordingModel([], 'Write a complete') }, {}, failedRun);
+		await assert.rejects(failingAgent('Renewable energy'));
+
+		const prompts: string[] = [];
+		const resumedRun = createCheckpointStore({ dir, runId: 'run-1', resume: true });
+		const resumedAgent = createArticleAgent({ basic: createRecordingModel(prompts) }, {}, resumedRun);
+		ArticleSchema.parse(await resumedAgent('Renewable energy'));
+
+		// The facts and outline come from the checkpoints, only the writer and title steps call the model
+		assert.equal(resumedRun.reused, 2);
+		assert.equal(prompts.length, 2);
+		assert.ok(prompts[0].includes('Write a complete'));
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
+
+await test('re-runs a finished run from a named step onward', async () => {
+	const dir = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+	try {
+		const firstRun = createCheckpointStore({ dir, runId: 'run-1' });
+		await createArticleAgent({ basic: createRecordingModel([]) }, {}, firstRun)('Renewable energy');
+
+		const prompts: string[] = [];
+		const rerun = createCheckpointStore({ dir, runId: 'run-1', resume: true, fromStep: 'outliner' });
+		await createArticleAgent({ basic: createRecordingModel(prompts) }, {}, rerun)('Renewable energy');
+
+		assert.equal(rerun.reused, 1);
+		assert.equal(prompts.length, 3);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
+
+await test('runs a batch of topics, a failed topic does not stop the others', async () => {
+	const articleAgent = createArticleAgent({ basic: createRecordingModel([], 'Broken topic') });
+	const items = await runBatch(['Renewable energy', 'Broken topic', 'The history of the bicycle'], articleAgent, 2);
+
+	assert.deepEqual(items.map(item => item.ok), [true, false, true]);
+	assert.deepEqual(items.map(item => item.input), ['Renewable energy', 'Broken topic', 'The history of the bicycle']);
+});
@@ -0,0 +1,248 @@
+import assert from 'node:assert/strict';
+import { cp, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { test } from 'node:test';
+import { z } from 'zod';
+import { createMockModels, matchSnapshot, runExample } from './example-harness';
+import { createMockModel } from '../src/model-mock';
+import { exampleMockRules } from '../src/mock-rules';
+import { createInquiryClassifier, createSupportAgent, createSupportResponder, InquiryCategory } from '../src/2-routing/workflow';
+import { DEFAULT_HANDLERS_DIR, formatCategoryList, loadHandlerDefinitions } from '../src/2-routing/handler-registry';
+import { enqueueReview, readReviewQueue, updateReviewEntry } from '../src/2-routing/review-queue';
+import { readEvalDataset, runRouterEval, scoreEval } from '../src/2-routing/router-eval';
+
+const CATEGORIES = ['technical', 'billing', 'general', 'urgent'] as const;
+
+const RoutingSchema = z.object({
+	category: z.enum(CATEGORIES),
+	classification: z.object({
+		category: z.enum(CATEGORIES),
+		confidence: z.number().min(0).max(1),
+		secondaryCategories: z.array(z.enum(CATEGORIES)),
+		rationale: z.string().min(1)
+	}),
+	status: z.enum(['answered', 'review']),
+	reviewReason: z.string().min(1).optional(),
+	response: z.string().min(1).optional(),
+	originalInquiry: z.string().min(1)
+});
+
+const result = await runExample('2-routing');
+
+await test('returns the category, classification, response and inquiry', () => {
+	RoutingSchema.parse(result);
+});
+
+await test('classifies the production outage in input.txt as urgent and answers it', () => {
+	const { category, classification, status, response, originalInquiry } = RoutingSchema.parse(result);
+	assert.equal(category, 'urgent');
+	assert.deepEqual(classification.secondaryCategories, ['technical']);
+	assert.equal(status, 'answered');
+	assert.ok(response);
+	assert.match(originalInquiry, /production API has been down/);
+});
+
+await test('routes each kind of inquiry to its category', async () => {
+	const supportAgent = createSupportAgent(createMockModels());
+	const inquiries: Record<InquiryCategory, string> = {
+		technical: 'The SDK returns an error on every request to the orders endpoint.',
+		billing: 'I was charged twice for my subscription this month.',
+		general: 'Do you offer a dark mode?',
+		urgent: 'We suspect a security breach in our account.'
+	};
+
+	for (const [category, inquiry] of Object.entries(inquiries)) {
+		const result = await supportAgent(inquiry);
+		assert.equal(result.category, category, inquiry);
+		assert.equal(result.status, 'answered', inquiry);
+		assert.equal(result.originalInquiry, inquiry);
+	}
+});
+
+await test('matches keywords as words and only the categories of the handler files', async () => {
+	const classify = createInquiryClassifier(createMockModels());
+	assert.equal((await classify('Can you give me a rapid overview of your plans?')).category, 'general');
+
+	const definitions = loadHandlerDefinitions().filter(definition => definition.category !== 'technical');
+	const classifyWithoutTechnical = createInquiryClassifier(createMockModels(), { handlerDefinitions: definitions });
+	assert.equal((await classifyWithoutTechnical('The SDK returns an error.')).category, 'general');
+});
+
+await test('sends inquiries below the confidence threshold to review without answering them', async () => {
+	const supportAgent = createSupportAgent(createMockModels());
+	// Matches three categories, so the mock classifier is only 0.65 sure
+	const result = await supportAgent('Our API is down and we were charged for the outage.');
+
+	assert.equal(result.status, 'review');
+	assert.equal(result.response, undefined);
+	assert.match(result.reviewReason ?? '', /below 0.7/);
+});
+
+await test('sends possibly urgent inquiries to review even when the classifier is sure', async () => {
+	const classifyAsGeneral = createMockModel('mock-basic', [
+		{
+			match: /Classify this customer inquiry/,
+			reply: { object: { category: 'general', confidence: 0.9, secondaryCategories: ['urgent'], rationale: 'A product question.' } }
+		},
+		...exampleMockRules
+	]);
+	const supportAgent = createSupportAgent({ ...createMockModels(), basic: classifyAsGeneral });
+	const result = await supportAgent('Can other users see my account settings?');
+
+	assert.equal(result.status, 'review');
+	assert.match(result.reviewReason ?? '', /Possibly urgent/);
+});
+
+await test('queues inquiries for review and records the decision', async () => {
+	const dir = await mkdtemp(join(tmpdir(), 'review-'));
+	const path = join(dir, 'review-queue.jsonl');
+	try {
+		const supportAgent = createSupportAgent(createMockModels());
+		const first = await enqueueReview(path, await supportAgent('Our API is down and we were charged for the outage.'));
+		await enqueueReview(path, await supportAgent('The billing API returns an error and an outage page.'));
+
+		await updateReviewEntry(path, first.id, { status: 'rerouted', category: 'urgent', response: 'On it.' });
+
+		const entries = await readReviewQueue(path);
+		assert.deepEqual(entries.map(entry => entry.status), ['rerouted', 'pending']);
+		assert.equal(entries[0].category, 'urgent');
+		assert.ok(entries[0].reviewedAt);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
+
+await test('scores precision, recall and the confusion matrix', () => {
+	const scores = scoreEval([
+		{ inquiry: 'a', expected: 'urgent', predicted: 'urgent' },
+		{ inquiry: 'b', expected: 'urgent', predicted: 'general' },
+		{ inquiry: 'c', expected: 'general', predicted: 'general' },
+		{ inquiry: 'd', expected: 'billing', predicted: 'error', error: 'Timeout' }
+	], [...CATEGORIES]);
+
+	assert.equal(scores.accuracy, 0.5);
+	assert.equal(scores.errors, 1);
+	assert.deepEqual(scores.perCategory.urgent, { precision: 1, recall: 0.5, support: 2 });
+	assert.deepEqual(scores.perCategory.general, { precision: 0.5, recall: 1, support: 1 });
+	assert.deepEqual(scores.perCategory.technical, { precision: null, recall: null, support: 0 });
+	assert.equal(scores.confusion.urgent.general, 1);
+	assert.equal(scores.confusion.billing.error, 1);
+});
+
+await test('evaluates the classifier on the labeled dataset', async () => {
+	const rows = await readEvalDataset(fileURLToPath(new URL('../src/2-routing/eval-dataset.jsonl', import.meta.url)), [...CATEGORIES]);
+	const predictions = await runRouterEval(rows, createInquiryClassifier(createMockModels()), 4);
+	const scores = scoreEval(predictions, [...CATEGORIES]);
+
+	// The keyword rules of the mock classifier miss 4 of the 20 inquiries
+	assert.equal(scores.total, 20);
+	assert.equal(scores.accuracy, 0.8);
+	assert.equal(scores.confusion.urgent.urgent, 3);
+});
+
+await test('builds the classifier categories and prompt from the handler files', () => {
+	const definitions = loadHandlerDefinitions();
+	assert.deepEqual(definitions.map(definition => definition.category).sort(), [...CATEGORIES].sort());
+	assert.deepEqual(definitions.filter(definition => definition.critical).map(definition => definition.category), ['urgent']);
+	assert.match(formatCategoryList(definitions), /- billing: Payments, invoices, subscription questions/);
+});
+
+await test('adds a category with a handler file', async () => {
+	const dir = await mkdtemp(join(tmpdir(), 'handlers-'));
+	try {
+		await cp(DEFAULT_HANDLERS_DIR, dir, { recursive: true });
+		await writeFile(join(dir, 'legal.md'), [
+			'---',
+			'category: legal',
+			'description: Contracts, terms of service, data protection requests',
+			'model: advanced',
+			'---',
+			'Provide a careful legal response to this inquiry:',
+			'',
+			'{{ inquiry }}'
+		].join('\n'));
+
+		const classifyAsLegal = createMockModel('mock-basic', [
+			{
+				match: /- legal: Contracts, terms of service/,
+				reply: { object: { category: 'legal', confidence: 0.9, secondaryCategories: [], rationale: 'A contract question.' } }
+			}
+		]);
+		const answerLegal = createMockModel('mock-advanced', [
+			{ match: /careful legal response/, reply: { text: 'This is a mock legal response.' } }
+		]);
+		const supportAgent = createSupportAgent({ basic: classifyAsLegal, advanced: answerLegal }, { handlersDir: dir });
+		const result = await supportAgent('Can we get a signed data processing agreement?');
+
+		assert.equal(result.category, 'legal');
+		assert.equal(result.response, 'This is a mock legal response.');
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
+
+await test('answers with another model role and keeps template syntax in descriptions', async () => {
+	const dir = await mkdtemp(join(tmpdir(), 'handlers-'));
+	try {
+		await cp(DEFAULT_HANDLERS_DIR, dir, { recursive: true });
+		await writeFile(join(dir, 'faq.md'), [
+			'---',
+			'category: faq',
+			'description: Questions about {{ inquiry }} placeholders',
+			'model: local',
+			'---',
+			'Answer this FAQ inquiry:',
+			'',
+			'{{ inquiry }}'
+		].join('\n'));
+
+		// The description reaches the classifier as written, not rendered
+		const classifyAsFaq = createMockModel('mock-basic', [
+			{
+				match: /- faq: Questions about \{\{ inquiry \}\} placeholders/,
+				reply: { object: { category: 'faq', confidence: 0.9, secondaryCategories: [], rationale: 'A placeholder question.' } }
+			}
+		]);
+		const localModel = createMockModel('mock-local', [
+			{ match: /Answer this FAQ inquiry/, reply: { text: 'This is a mock FAQ answer.' } }
+		]);
+		const models = { ...createMockModels(), basic: classifyAsFaq };
+		assert.throws(() => createSupportAgent(models, { handlersDir: dir }), /Unknown model role "local"/);
+
+		const supportAgent = createSupportAgent(models, { handlersDir: dir }, {
+			getModel: role => role === 'local' ? localModel : assert.fail(`Unexpected role ${role}`)
+		});
+		const result = await supportAgent('How do I use placeholders in templates?');
+
+		assert.equal(result.category, 'faq');
+		assert.equal(result.response, 'This is a mock FAQ answer.');
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
+
+await test('rejects handler files with missing fields or duplicate categories', async () => {
+	const dir = await mkdtemp(join(tmpdir(), 'handlers-'));
+	try {
+		await writeFile(join(dir, 'sales.md'), '---\ncategory: sales\nmodel: basic\n---\nAnswer {{ inquiry }}');
+		assert.throws(() => loadHandlerDefinitions(dir), /"description" is required/);
+
+		await writeFile(join(dir, 'sales.md'), '---\ncategory: sales\ndescription: Pricing\nmodel: basic\n---\nAnswer {{ inquiry }}');
+		await writeFile(join(dir, 'sales-2.md'), '---\ncategory: sales\ndescription: Quotes\nmodel: basic\n---\nAnswer {{ inquiry }}');
+		assert.throws(() => loadHandlerDefinitions(dir), /Category "sales" is defined twice/);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
+
+await test('answers with the handler a reviewer picked', async () => {
+	const supportResponder = createSupportResponder(createMockModels());
+	assert.equal(await supportResponder('Can other users see my account settings?', 'urgent'), 'Thank you for reaching out. This is a mock support response.');
+	await assert.rejects(supportResponder('Hello', 'sales'), /Unknown category "sales"/);
+});
+
+await test('matches the snapshot', async () => {
+	await matchSnapshot('2-routing', result);
+});
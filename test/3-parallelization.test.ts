@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import { createCheckpointStore } from '../src/example-checkpoints';
+import { createMockModel } from '../src/model-mock';
+import { exampleMockRules } from '../src/mock-rules';
+import { createStockAnalysisAgent } from '../src/3-parallelization/workflow';
+import { matchSnapshot, runExample } from './example-harness';
+import { StockAnalysisResultSchema } from '../src/3-parallelization/types';
+import config from '../src/3-parallelization/input.json';
+
+// The Yahoo Finance pages, the mock model answers the same for any page
+const fetchQuotePage: typeof fetch = () => Promise.resolve(new Response('<html><body>Mock quote page</body></html>'));
+
+// A mock model, recording the prompts it answers and failing the prompts that contain `failOn`
+function createRecordingModel(modelId: string, prompts: string[], failOn?: string) {
+	return createMockModel(modelId, exampleMockRules.map(rule => ({
+		match: rule.match,
+		reply: (prompt: string) => {
+			prompts.push(prompt);
+			if (failOn !== undefined && prompt.includes(failOn)) {
+				throw new Error('The model is unavailable');
+			}
+			return typeof rule.reply === 'function' ? rule.reply(prompt) : rule.reply;
+		}
+	})));
+}
+
+const result = await runExample('3-parallelization', { fetch: fetchQuotePage });
+
+await test('returns the markets, counts and top stocks', () => {
+	StockAnalysisResultSchema.parse(result);
+});
+
+await test('analyzes every stock found in every market', () => {
+	const { markets, total, analyzed, skipped } = StockAnalysisResultSchema.parse(result);
+	// The mock finds 2 stocks per market
+	assert.equal(total, markets.length * 2);
+	assert.equal(analyzed, total);
+	assert.equal(skipped, 0);
+});
+
+await test('ranks the top stocks by final score within the limits of input.json', () => {
+	const { topStocks, analyzed } = StockAnalysisResultSchema.parse(result);
+
+	assert.equal(topStocks.length, Math.min(config.numTopStocks, analyzed));
+	assert.deepEqual(topStocks.map(stock => stock.rank), topStocks.map((_, index) => index + 1));
+	topStocks.slice(1).forEach((stock, index) => {
+		assert.ok(stock.finalScore <= topStocks[index].finalScore, `rank ${stock.rank} scores higher than rank ${index + 1}`);
+	});
+
+	for (const market of new Set(topStocks.map(stock => stock.market))) {
+		const count = topStocks.filter(stock => stock.market === market).length;
+		assert.ok(count <= config.numMaxStocksPerMarket, `${count} stocks from ${market}`);
+	}
+
+	// The mock scores MOCK above SMPL in every market
+	assert.ok(topStocks.every(stock => stock.ticker === 'MOCK'));
+});
+
+await test('matches the snapshot', async () => {
+	await matchSnapshot('3-parallelization', result);
+});
+
+await test('resumes a failed run from the scores', async () => {
+	const { markets, total } = StockAnalysisResultSchema.parse(result);
+	const dir = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+	try {
+		const failedRun = createCheckpointStore({ dir, runId: 'run-1' });
+		const failingAgent = createStockAnalysisAgent({
+			basic: createRecordingModel('mock-basic', []),
+			advanced: createRecordingModel('mock-advanced', [], 'rate the stock on these 6 dimensions')
+		}, {}, failedRun);
+		await assert.rejects(failingAgent(config));
+
+		const prompts: string[] = [];
+		const resumedRun = createCheckpointStore({ dir, runId: 'run-1', resume: true });
+		const resumedAgent = createStockAnalysisAgent({
+			basic: createRecordingModel('mock-basic', prompts),
+			advanced: createRecordingModel('mock-advanced', prompts)
+		}, {}, resumedRun);
+		StockAnalysisResultSchema.parse(await resumedAgent(config));
+
+		// The markets, the stocks of each market and the info and analysis of each stock come from the
+		// checkpoints (the pages are fetched again from the stub), only the scores call the model
+		assert.equal(resumedRun.reused, 1 + markets.length + total * 2);
+		assert.equal(prompts.length, total);
+		assert.ok(prompts.every(prompt => prompt.includes('rate the stock on these 6 dimensions')));
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { z } from 'zod';
+import { createMockModels, matchSnapshot, runExample } from './example-harness';
+import { createContentAgent } from '../src/4-reflection/workflow';
+
+const ReflectionSchema = z.object({
+	finalDraft: z.string().min(1),
+	finalScore: z.number().int().min(1).max(10),
+	revisionsMade: z.number().int().min(0).max(3)
+});
+
+const result = await runExample('4-reflection');
+
+await test('returns the final draft, score and number of revisions', () => {
+	ReflectionSchema.parse(result);
+});
+
+await test('revises the draft until it reaches the quality threshold', () => {
+	const { finalDraft, finalScore, revisionsMade } = ReflectionSchema.parse(result);
+	// The mock scores the first draft 6 and its revision 8, the threshold
+	assert.equal(finalScore, 8);
+	assert.equal(revisionsMade, 1);
+	assert.equal(finalDraft, 'This is a revised mock blog post.');
+});
+
+await test('stops at maxRevisions when the threshold is out of reach', async () => {
+	const contentAgent = createContentAgent(createMockModels(), { qualityThreshold: 9, maxRevisions: 2 });
+	const { finalScore, revisionsMade } = await contentAgent('The future of AI-powered development');
+	assert.equal(finalScore, 8);
+	assert.equal(revisionsMade, 2);
+});
+
+await test('matches the snapshot', async () => {
+	await matchSnapshot('4-reflection', result);
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { z } from 'zod';
+import { createBudget, withBudget } from '../src/model-budget';
+import { createWeatherAssistant } from '../src/5-tool/workflow';
+import { createMockModels, matchSnapshot, runExample } from './example-harness';
+
+const AnswerSchema = z.object({
+	query: z.string().min(1),
+	answer: z.string().min(1)
+});
+
+// Geocoding, timezone and forecast APIs
+const requestedUrls: string[] = [];
+const fetchWeatherApis: typeof fetch = (input) => {
+	const url = input instanceof Request ? input.url : input.toString();
+	requestedUrls.push(url);
+
+	let body: unknown;
+	if (url.startsWith('https://nominatim.openstreetmap.org/')) {
+		body = [{ lat: '48.8566', lon: '2.3522', display_name: 'Paris, France' }];
+	} else if (url.includes('daily=')) {
+		body = {
+			daily: {
+				time: ['2026-01-01', '2026-01-02'],
+				temperature_2m_max: [9, 11],
+				temperature_2m_min: [3, 4],
+				precipitation_sum: [0, 1.2],
+				weather_code: [1, 3]
+			}
+		};
+	} else {
+		body = { utc_offset_seconds: 3600 };
+	}
+	return Promise.resolve(Response.json(body));
+};
+
+const result = await runExample('5-tool', { fetch: fetchWeatherApis });
+
+await test('returns the query and the answer', () => {
+	AnswerSchema.parse(result);
+});
+
+await test('geocodes the location, then fetches the forecast', () => {
+	const { answer } = AnswerSchema.parse(result);
+	assert.equal(answer, 'Mock forecast: mild and partly cloudy.');
+	assert.ok(requestedUrls[0].startsWith('https://nominatim.openstreetmap.org/search?q=Paris'));
+	assert.ok(requestedUrls.some(url => url.includes('daily=') && url.includes('forecast_days=2')));
+});
+
+await test('matches the snapshot', async () => {
+	await matchSnapshot('5-tool', result);
+});
+
+await test('answers that the budget ran out when a call of the tool loop is refused', async () => {
+	// The first call of the loop uses up the budget, the call after the geocoding is refused
+	const budget = createBudget({ maxTokens: 1 });
+	const { basic, advanced } = createMockModels();
+	const weatherAssistant = createWeatherAssistant({ basic: withBudget(basic, budget), advanced: withBudget(advanced, budget) });
+
+	const { answer, budgetExceeded } = await weatherAssistant('What\'s the weather in Paris tomorrow?');
+	assert.equal(budgetExceeded, true);
+	assert.match(answer, /Token budget exceeded/);
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { createMockModel } from '../src/model-mock';
+import { exampleMockRules } from '../src/mock-rules';
+import { ExampleModels } from '../src/example-workflow';
+
+/**
+ * Example Test Harness
+ *
+ * Runs an example's workflow in the test process with the models replaced by the
+ * deterministic mock (src/mock-rules.ts), and compares its result with a stored snapshot:
+ *
+ *   const result = await runExample('2-routing');
+ *   await matchSnapshot('2-routing', result);
+ *
+ * The examples run on import, so each test file runs one example (node --test runs every
+ * file in its own process). The result is read back from the run folder the example saves
+ * with --out (see src/example-output.ts). To run a workflow with other inputs or config,
+ * create it from the example's workflow.ts with `createMockModels()`.
+ *
+ * Snapshots live in test/__snapshots__. A missing snapshot is written on the first run (in
+ * CI it fails instead), UPDATE_SNAPSHOTS=true rewrites them after an intended change.
+ */
+
+const ROOT_DIR = fileURLToPath(new URL('..', import.meta.url));
+const SNAPSHOTS_DIR = fileURLToPath(new URL('./__snapshots__', import.meta.url));
+
+export interface RunExampleOptions {
+	// Input text instead of the example's input file, as with --input-text
+	inputText?: string;
+	// Stands in for the web APIs the example's tools and helpers call
+	fetch?: typeof fetch;
+}
+
+// Settings from the environment or .env that would make the run non-deterministic or write files
+const IGNORED_ENV = [
+	'EXAMPLE_INPUT', 'EXAMPLE_INPUT_TEXT', 'EXAMPLE_SET', 'EXAMPLE_RUN_ID', 'EXAMPLE_FROM_STEP',
+	'EXAMPLE_BATCH', 'EXAMPLE_CONCURRENCY', 'MODELS_CONFIG',
+	'TRACE_FILE', 'TRACE_SPANS_FILE', 'BUDGET_MAX_TOKENS', 'BUDGET_MAX_COST'
+];
+
+export async function runExample(name: string, options: RunExampleOptions = {}): Promise<unknown> {
+	const outDir = await mkdtemp(join(tmpdir(), `${name}-`));
+
+	for (const key of IGNORED_ENV) {
+		Reflect.deleteProperty(process.env, key);
+	}
+	Object.assign(process.env, {
+		MOCK_MODELS: 'true',
+		CASSETTE_MODE: 'passthrough',
+		MODEL_CACHE: 'false',
+		CHECKPOINTS: 'false',
+		TRACE_DASHBOARD: 'false',
+		EXAMPLE_NAME: name,
+		EXAMPLE_FORMAT: 'json',
+		EXAMPLE_OUT_DIR: outDir,
+		REVIEW_QUEUE: join(outDir, 'review-queue.jsonl'),
+		...(options.inputText !== undefined ? { EXAMPLE_INPUT_TEXT: options.inputText } : {})
+	});
+	if (options.fetch) {
+		globalThis.fetch = options.fetch;
+	}
+
+	try {
+		await import(pathToFileURL(join(ROOT_DIR, 'src', name, 'index.ts')).href);
+
+		// The run folder, next to the files an example may write such as the review queue
+		const [runDir] = (await readdir(outDir, { withFileTypes: true })).filter(entry => entry.isDirectory());
+		return JSON.parse(await readFile(join(outDir, runDir.name, 'result.json'), 'utf-8')) as unknown;
+	} finally {
+		await rm(outDir, { recursive: true, force: true });
+	}
+}
+
+// The mock models of MOCK_MODELS=true, for creating the workflows directly
+export function createMockModels(): ExampleModels {
+	return {
+		basic: createMockModel('mock-basic', exampleMockRules),
+		advanced: createMockModel('mock-advanced', exampleMockRules)
+	};
+}
+
+async function readSnapshot(path: string): Promise<unknown> {
+	try {
+		return JSON.parse(await readFile(path, 'utf-8')) as unknown;
+	} catch (error) {
+		if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+export async function matchSnapshot(name: string, actual: unknown): Promise<void> {
+	const path = join(SNAPSHOTS_DIR, `${name}.json`);
+	const displayPath = relative(ROOT_DIR, path);
+
+	if (process.env.UPDATE_SNAPSHOTS !== 'true') {
+		const expected = await readSnapshot(path);
+		if (expected !== undefined) {
+			assert.deepEqual(actual, expected, `The result differs from ${displayPath}, run UPDATE_SNAPSHOTS=true npm test if the change is intended`);
+			return;
+		}
+		if (process.env.CI) {
+			assert.fail(`Missing snapshot ${displayPath}, run npm test locally and commit it`);
+		}
+	}
+
+	await mkdir(SNAPSHOTS_DIR, { recursive: true });
+	await writeFile(path, `${JSON.stringify(actual, null, '\t')}\n`);
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { LanguageModelV2 } from '@ai-sdk/provider';
+import { withRateLimit } from '../src/model-rate-limit';
+
+// A model whose calls answer once `finish` is called, recording the prompts it was sent
+function createHeldModel() {
+	const prompts: string[] = [];
+	const pending: (() => void)[] = [];
+
+	const model: LanguageModelV2 = {
+		specificationVersion: 'v2',
+		provider: 'test',
+		modelId: 'held',
+		supportedUrls: {},
+		doGenerate: async ({ prompt }) => {
+			const [message] = prompt;
+			prompts.push(message.role === 'system' ? message.content : '');
+			await new Promise<void>(resolve => { pending.push(resolve); });
+			return {
+				content: [{ type: 'text', text: 'done' }],
+				finishReason: 'stop',
+				usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+				warnings: []
+			};
+		},
+		doStream: () => Promise.reject(new Error('Not used'))
+	};
+
+	const finish = () => { pending.shift()?.(); };
+	return { model, prompts, finish };
+}
+
+async function call(model: LanguageModelV2, text: string, abortSignal?: AbortSignal) {
+	return await model.doGenerate({ prompt: [{ role: 'system', content: text }], abortSignal });
+}
+
+// Let the queued calls reach the model
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+await test('an aborted call leaves the queue without taking a slot', async () => {
+	const { model, prompts, finish } = createHeldModel();
+	const limited = withRateLimit(model, { maxConcurrent: 1 });
+
+	const first = call(limited, 'first');
+	const controller = new AbortController();
+	const aborted = call(limited, 'aborted', controller.signal);
+	const third = call(limited, 'third');
+	await settle();
+	assert.deepEqual(prompts, ['first']);
+
+	controller.abort(new Error('No longer needed'));
+	await assert.rejects(aborted, { message: 'No longer needed' });
+
+	finish();
+	await first;
+	await settle();
+	assert.deepEqual(prompts, ['first', 'third']);
+
+	finish();
+	await third;
+});
+
+await test('a call that is aborted before it is queued is rejected', async () => {
+	const { model, prompts } = createHeldModel();
+	const limited = withRateLimit(model, { maxConcurrent: 1 });
+
+	await assert.rejects(call(limited, 'aborted', AbortSignal.abort(new Error('Cancelled'))), { message: 'Cancelled' });
+	assert.deepEqual(prompts, []);
+});